@@ -4,6 +4,10 @@ declare global {
   namespace Express {
     interface Request {
       container: Container;
+      // Parameters of the controller host pattern, see @HostParam
+      hosts?: Record<string, string>;
+      // Version requested by the client, set when versioning is enabled
+      version?: string;
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,1581 @@
+import express from "express";
+import { IncomingMessage, ServerResponse, type Server } from "http";
+import type { Socket } from "net";
+import { Readable, Writable } from "stream";
+import { randomUUID } from "crypto";
+import { Container as InversifyContainer } from "inversify";
+import { z } from "zod";
+import {
+  APP_FILTER,
+  APP_GUARD,
+  APP_PIPE,
+  Container,
+  DiscoveryService,
+  EventEmitter,
+  ExecutionContextHost,
+  ExpressAdapter,
+  ForbiddenException,
+  GLOBAL_ENHANCERS,
+  HttpAdapterHost,
+  HttpException,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+  OpenApiGenerator,
+  PIPED_PARAM_TYPES,
+  REQUEST,
+  Reflector,
+  RequestContext,
+  StreamableFile,
+  VERSION_NEUTRAL,
+  ZodValidationPipe,
+  compileHostPattern,
+  compileRoutePattern,
+  getMetadataRecord,
+  getMethodNames,
+  isDynamicModule,
+  isForwardReference,
+  normalizeRoutePath,
+  parseCookies,
+  type AdapterErrorHandler,
+  type AdapterHandler,
+  type ArgumentMetadata,
+  type CallHandler,
+  type CanActivate,
+  type Constructor,
+  type DynamicModule,
+  type EventListenerMetadata,
+  type ExceptionFilter,
+  type ExecutionContext,
+  type FrameworkRequest,
+  type HttpAdapter,
+  type Interceptor,
+  type LoggerService,
+  type ModuleImport,
+  type ModuleInstance,
+  type ModuleMetadata,
+  type OpenApiDocument,
+  type OpenApiOptions,
+  type ParamMetadata,
+  type Pipe,
+  type PipeFunction,
+  type PipeTransform,
+  type Provider,
+  type ResponseMetadata,
+  type RouteDefinition,
+  type RouteInfo,
+  type RouteMetadata,
+  type SerializationGroups,
+  type SerializeMetadata,
+  type ShutdownHooksOptions,
+  type Token,
+  type VersionValue,
+  type VersioningOptions,
+} from "./core";
+import { formatServerSentEvent, observableToAsyncIterable, type ObservableLike } from "./sse";
+import { Clock, SchedulerRegistry, type ScheduleMetadata } from "./scheduler";
+import { WsException, WsServer, type WebSocketGatewayOptions, type WsMessage } from "./websockets";
+
+class MiniFramework {
+  private httpAdapter: HttpAdapter;
+  private container: Container;
+  private modules = new Map<Constructor | DynamicModule, ModuleInstance>();
+  private loadingModules = new Map<Constructor | DynamicModule, ModuleInstance>();
+  private pendingImports: { importer: ModuleInstance; imported: ModuleInstance }[] = [];
+  private routes: RouteDefinition[] = [];
+  private validatedRoutes = 0;
+  private skippedHandlers: string[] = [];
+  private strictRouting = false;
+  private openApiOptions: OpenApiOptions = {};
+  private versioningOptions?: VersioningOptions;
+  // The versions served by at least one route, updated as modules are registered
+  private knownVersions = new Set<VersionValue>();
+  private logger = new Logger("MiniFramework");
+  private requestLogging = false;
+  private serializationGroups?: (context: ExecutionContext) => string | string[] | undefined;
+  private discoveredInstances = new WeakSet<object>();
+  private globalGuards: (Constructor<CanActivate> | CanActivate)[] = [];
+  private globalFilters: (Constructor<ExceptionFilter> | ExceptionFilter)[] = [];
+  private globalPipes: Pipe[] = [];
+  private globalInterceptors: (Constructor<Interceptor> | Interceptor)[] = [];
+  private pendingGlobalEnhancers: { token: Token; kind: symbol; container: Container }[] = [];
+  private server?: Server;
+  private isInitialized = false;
+  private isShuttingDown = false;
+  private shutdown?: Promise<void>;
+  private inFlightRequests = 0;
+  // Called when the last in-flight request is done while the server is closing
+  private onDrained?: () => void;
+  private eventStreams = new Set<ServerResponse>();
+  private shutdownTimeout = 10_000;
+  private shutdownSignals: { signal: NodeJS.Signals; listener: () => void }[] = [];
+
+  // httpAdapter: The HTTP server to run on, express by default, e.g. new MiniFramework(new NodeHttpAdapter())
+  constructor(httpAdapter: HttpAdapter = new ExpressAdapter(), container: Container = new Container()) {
+    this.httpAdapter = httpAdapter;
+    this.container = container;
+    if (!this.container.hasOwn(Reflector)) {
+      this.container.register(Reflector);
+    }
+    if (!this.container.hasOwn(EventEmitter)) {
+      this.container.register(EventEmitter);
+    }
+    if (!this.container.hasOwn(Clock)) {
+      this.container.register(Clock);
+    }
+    if (!this.container.hasOwn(SchedulerRegistry)) {
+      this.container.register(SchedulerRegistry);
+    }
+    if (!this.container.hasOwn(Logger)) {
+      // Each consumer gets a logger named after its class
+      this.container.inversifyContainer.bind(Logger).toDynamicValue((ctx) => {
+        const consumer = ctx.currentRequest.parentRequest?.serviceIdentifier;
+        return new Logger(typeof consumer === "function" ? consumer.name : typeof consumer === "symbol" ? consumer.description : consumer);
+      });
+    }
+    if (!this.container.hasOwn(DiscoveryService)) {
+      this.container.register({ provide: DiscoveryService, useValue: new DiscoveryService(() => [...this.modules.values()], () => this.getRouteTable()) });
+    }
+    if (!this.container.hasOwn(HttpAdapterHost)) {
+      this.container.register({ provide: HttpAdapterHost, useValue: new HttpAdapterHost(httpAdapter) });
+    }
+    if (!this.container.hasOwn(WsServer)) {
+      this.container.register({ provide: WsServer, useValue: new WsServer() });
+    }
+    if (!this.container.hasOwn(REQUEST)) {
+      this.container.register({ provide: REQUEST, useFactory: () => RequestContext.current()?.request, scope: "Request" });
+    }
+    this.httpAdapter.use(this.trackRequestsMiddleware.bind(this));
+    this.httpAdapter.use(this.scopeMiddleware.bind(this));
+    this.httpAdapter.use(this.requestLoggingMiddleware.bind(this));
+    this.httpAdapter.use(this.versioningMiddleware.bind(this));
+  }
+
+  // requestLoggingMiddleware method
+  // Used to log each request once its response is finished, when request logging is enabled
+  // The request id is sent back as X-Request-Id so that clients can correlate their calls with the logs
+  private requestLoggingMiddleware(req: FrameworkRequest, res: ServerResponse, next: (error?: unknown) => void): void {
+    const context = RequestContext.current();
+    if (!this.requestLogging || !context) {
+      return next();
+    }
+    const start = process.hrtime.bigint();
+    this.httpAdapter.setHeader(res, "X-Request-Id", context.id);
+    this.httpAdapter.getRawResponse(res).once("finish", () => {
+      const status = this.httpAdapter.getStatus(res);
+      const fields = {
+        method: this.httpAdapter.getRequestMethod(req),
+        route: this.httpAdapter.getRoutePath(req),
+        version: req.version,
+        url: this.httpAdapter.getRequestUrl(req),
+        status,
+        duration: Number(process.hrtime.bigint() - start) / 1e6,
+      };
+      const message = `${fields.method} ${fields.route ?? fields.url} ${status} ${fields.duration.toFixed(1)}ms`;
+      // Written in the context of the request, so the entry carries its id
+      RequestContext.run(context, () => {
+        if (status >= 500) this.logger.error(message, fields);
+        else if (status >= 400) this.logger.warn(message, fields);
+        else this.logger.log(message, fields);
+      });
+    });
+    next();
+  }
+
+  // versioningMiddleware method
+  // Used to read the requested version according to the versioning strategy
+  // With uri versioning, the version segment is removed from the url so that routes are matched without it
+  // Requests for a version no route serves are answered with a 404 here, like the other errors of the framework
+  private versioningMiddleware(req: FrameworkRequest, res: ServerResponse, next: (error?: unknown) => void): void {
+    const options = this.versioningOptions;
+    if (options?.type === "uri") {
+      const prefix = options.prefix ?? "v";
+      const url = this.httpAdapter.getRequestUrl(req);
+      const match = url.match(/^\/([^/?]+)/);
+      const version = match?.[1].startsWith(prefix) ? match[1].slice(prefix.length) : undefined;
+      // Only known versions are removed, a path such as /videos is left untouched, while /v9 is an unknown version
+      if (version && this.knownVersions.has(version)) {
+        const rest = url.slice(match![0].length);
+        this.httpAdapter.setRequestUrl(req, rest.startsWith("/") ? rest : `/${rest}`);
+        req.version = version;
+      } else if (version && /^\d/.test(version) && !this.knownVersions.has(VERSION_NEUTRAL)) {
+        return this.sendDefaultException(new NotFoundException(`Version ${version} is not supported`), req, res, next);
+      }
+    } else if (options?.type === "header") {
+      req.version = this.httpAdapter.getRequestHeader(req, options.header ?? "X-API-Version") || undefined;
+    } else if (options?.type === "media-type") {
+      const key = options.key ?? "v=";
+      const parameter = (this.httpAdapter.getRequestHeader(req, "Accept") || "")
+        .split(/[;,]/)
+        .map((part) => part.trim())
+        .find((part) => part.startsWith(key));
+      req.version = parameter?.slice(key.length) || undefined;
+    }
+    if (options?.type !== "uri" && req.version !== undefined && !this.knownVersions.has(req.version) && !this.knownVersions.has(VERSION_NEUTRAL)) {
+      return this.sendDefaultException(new NotFoundException(`Version ${req.version} is not supported`), req, res, next);
+    }
+    next();
+  }
+
+  // updateKnownVersions method
+  // Used to list the versions served by at least one route, once routes are registered rather than on every request
+  private updateKnownVersions(): void {
+    this.knownVersions = new Set([...this.routes.flatMap((route) => this.getRouteVersions(route)), ...this.getRouteVersions({})]);
+  }
+
+  // getRouteVersions method
+  // Used to get the versions served by a route, the default version when it has none
+  private getRouteVersions(route: Pick<RouteDefinition, "versions">): VersionValue[] {
+    return route.versions ?? ([] as VersionValue[]).concat(this.versioningOptions?.defaultVersion ?? []);
+  }
+
+  // matchesVersion method
+  // Used to check if a route serves the version of the request, any route does when versioning is not enabled
+  // Without a requested version, header and media-type versioning fall back to the default version
+  private matchesVersion(req: { version?: string }, route: Pick<RouteDefinition, "versions">): boolean {
+    const options = this.versioningOptions;
+    if (!options) {
+      return true;
+    }
+    const versions = this.getRouteVersions(route);
+    if (versions.includes(VERSION_NEUTRAL)) {
+      return true;
+    }
+    if (!versions.length) {
+      // An unversioned route, a uri with a version is not one of its urls
+      return options.type !== "uri" || req.version === undefined;
+    }
+    if (req.version === undefined) {
+      return options.type !== "uri" && ([] as VersionValue[]).concat(options.defaultVersion ?? []).some((version) => versions.includes(version));
+    }
+    return versions.includes(req.version);
+  }
+
+  // bodyParserMiddleware method
+  // Used to parse JSON bodies of routes, malformed bodies go through the exception filters as a 400
+  private bodyParserMiddleware(req: FrameworkRequest, res: ServerResponse, next: (error?: unknown) => void): void {
+    // Continued from a promise, so the request context carries on after the body is read from stream events
+    this.httpAdapter.parseBody(req, res).then(
+      () => next(),
+      (error) => next(error.status && error.status < 500 ? new HttpException(error.status, error.message, { cause: error }) : error)
+    );
+  }
+
+  // trackRequestsMiddleware method
+  // Used to count in-flight requests so that close() can wait for them
+  private trackRequestsMiddleware(req: FrameworkRequest, res: ServerResponse, next: (error?: unknown) => void): void {
+    this.inFlightRequests++;
+    let done = false;
+    const onDone = () => {
+      if (!done) {
+        done = true;
+        if (--this.inFlightRequests === 0) {
+          this.onDrained?.();
+        }
+      }
+    };
+    this.httpAdapter.getRawResponse(res).on("finish", onDone).on("close", onDone);
+    if (this.isShuttingDown) {
+      // Ask keep-alive clients to reconnect elsewhere
+      this.httpAdapter.setHeader(res, "Connection", "close");
+    }
+    next();
+  }
+
+  // scopeMiddleware method
+  // Used to run each incoming request within its own request context
+  // Request-scoped instances are created in that context and disposed of once the response is finished
+  private scopeMiddleware(req: FrameworkRequest, res: ServerResponse, next: (error?: unknown) => void): void {
+    // Express objects by default, the context types them as such
+    const context = new RequestContext(this.httpAdapter.getRequestHeader(req, "X-Request-Id") || randomUUID(), req as express.Request, res as express.Response);
+    req.container = this.container.inversifyContainer.createChild();
+    let disposed = false;
+    const dispose = () => {
+      if (!disposed) {
+        disposed = true;
+        this.disposeRequestInstances(context);
+      }
+    };
+    this.httpAdapter.getRawResponse(res).on("finish", dispose).on("close", dispose);
+    RequestContext.run(context, next);
+  }
+
+  // disposeRequestInstances method
+  // Used to call onRequestDispose on the request-scoped instances, the last created first
+  private async disposeRequestInstances(context: RequestContext): Promise<void> {
+    const instances = [...context.instances.values()].reverse();
+    context.instances.clear();
+    for (const pending of instances) {
+      try {
+        const instance: any = await pending;
+        await instance?.onRequestDispose?.();
+      } catch (error) {
+        this.logger.error("Request-scoped instance could not be disposed of", { error });
+      }
+    }
+  }
+
+  // registerModule method
+  // Used to register a module, and the modules it imports, with the framework
+  async registerModule(module: ModuleImport): Promise<void> {
+    await this.loadModule(module, []);
+    this.validateDependencies();
+    this.container.promoteRequestScoped();
+    this.modules.forEach(({ container }) => container.promoteRequestScoped());
+    this.validateRoutes();
+    this.updateKnownVersions();
+    await this.resolveProviders();
+    this.discoverHandlers();
+  }
+
+  // validateDependencies method
+  // Used to check the dependencies of every provider and controller before any of them is created,
+  // so that a missing provider fails the startup with the module and parameter at fault
+  private validateDependencies(): void {
+    for (const { container, providers, controllers, gateways } of this.modules.values()) {
+      [...providers, ...controllers, ...gateways].forEach((token) => container.validate(token));
+      [...controllers, ...gateways].forEach((target) => this.validateEnhancers(target, container));
+    }
+    this.pendingGlobalEnhancers.forEach(({ token, container }) => container.validate(token));
+  }
+
+  // validateEnhancers method
+  // Used to check that the guard, interceptor, filter and pipe classes of a controller or gateway can be created
+  // A class that is not a provider is created with new, so its constructor parameters would be undefined,
+  // e.g. CacheInterceptor without CacheModule. Classes replaced by a testing module override are not created
+  private validateEnhancers(target: Constructor, container: Container): void {
+    for (const methodName of [undefined, ...getMethodNames(target.prototype)]) {
+      const read = (key: string): unknown[] => (methodName === undefined ? Reflect.getMetadata(key, target) : Reflect.getMetadata(key, target.prototype, methodName)) || [];
+      const pipeClasses = read("pipes").filter((pipe) => typeof (pipe as Function).prototype?.transform === "function");
+      for (const enhancer of [...read("guards"), ...read("interceptors"), ...read("filters"), ...pipeClasses]) {
+        if (typeof enhancer !== "function" || container.has(enhancer as Constructor) || container.isOverridden(enhancer as Constructor)) {
+          continue;
+        }
+        const paramTypes: unknown[] = Reflect.getMetadata("design:paramtypes", enhancer) || [];
+        if (enhancer.length > 0 || paramTypes.length > 0) {
+          const usedBy = methodName === undefined ? target.name : `${target.name}.${methodName}`;
+          throw new Error(`${enhancer.name}, used by ${usedBy}, has constructor parameters but is not a provider of ${container.name}, nor exported by a module it imports`);
+        }
+      }
+    }
+  }
+
+  // validateRoutes method
+  // Used to report the routes registered since the last call that are never reached, because a route
+  // registered before them matches the same requests, and the controller methods that are not routes
+  private validateRoutes(): void {
+    const issues = this.skippedHandlers.splice(0);
+    for (let index = this.validatedRoutes; index < this.routes.length; index++) {
+      const route = this.routes[index];
+      const name = `{${route.method.toUpperCase()} ${route.path}} (${route.controller.name}.${route.handlerName})`;
+      const earlier = this.routes.slice(0, index).find((candidate) => this.shadowsRoute(candidate, route));
+      if (earlier && normalizeRoutePath(earlier.path) === normalizeRoutePath(route.path)) {
+        issues.push(`Duplicate route ${name}, it is already mapped to ${earlier.controller.name}.${earlier.handlerName}`);
+      } else if (earlier) {
+        issues.push(`Route ${name} is shadowed by {${earlier.method.toUpperCase()} ${earlier.path}} (${earlier.controller.name}.${earlier.handlerName}) registered before it`);
+      }
+    }
+    this.validatedRoutes = this.routes.length;
+
+    if (issues.length && this.strictRouting) {
+      throw new Error(`Invalid route table:\n${issues.map((issue) => `  - ${issue}`).join("\n")}`);
+    }
+    issues.forEach((issue) => this.logger.warn(issue));
+  }
+
+  // shadowsRoute method
+  // Used to check if a route handles every request of a route registered after it, for its hosts and versions
+  private shadowsRoute(earlier: RouteDefinition, route: RouteDefinition): boolean {
+    if (earlier.method !== route.method || (earlier.host !== undefined && earlier.host !== route.host)) {
+      return false;
+    }
+    return this.coversVersions(earlier, route) && compileRoutePattern(earlier.path).test(route.path);
+  }
+
+  // coversVersions method
+  // Used to check if a route serves every version a route registered after it serves, see matchesVersion
+  private coversVersions(earlier: RouteDefinition, route: RouteDefinition): boolean {
+    if (!this.versioningOptions) {
+      return true;
+    }
+    const earlierVersions = this.getRouteVersions(earlier);
+    const versions = this.getRouteVersions(route);
+    if (earlierVersions.includes(VERSION_NEUTRAL)) {
+      return true;
+    }
+    if (!earlierVersions.length) {
+      return this.versioningOptions.type !== "uri" || !versions.length;
+    }
+    return versions.length > 0 && !versions.includes(VERSION_NEUTRAL) && versions.every((version) => earlierVersions.includes(version));
+  }
+
+  // discoverHandlers method
+  // Used to add the @OnEvent methods of the singleton providers and controllers to the event emitter,
+  // and their @Cron, @Interval and @Timeout methods to the scheduler
+  private discoverHandlers(): void {
+    const emitter = this.container.resolve(EventEmitter);
+    const scheduler = this.container.resolve(SchedulerRegistry);
+    for (const instance of this.getLifecycleInstances()) {
+      if (this.discoveredInstances.has(instance)) {
+        continue;
+      }
+      this.discoveredInstances.add(instance);
+      const prototype = Object.getPrototypeOf(instance);
+      const listeners: EventListenerMetadata[] = Reflect.getMetadata("events", prototype) || [];
+      for (const { event, handlerName, options } of listeners) {
+        emitter.on(event, (payload, name) => instance[handlerName](payload, name), options);
+      }
+      const schedules: ScheduleMetadata[] = Reflect.getMetadata("schedules", prototype) || [];
+      for (const { type, schedule, handlerName, options } of schedules) {
+        const name = options.name || `${prototype.constructor.name}.${String(handlerName)}`;
+        const callback = () => instance[handlerName]();
+        if (type === "cron") scheduler.addCronJob(name, schedule as string, callback, options);
+        else if (type === "interval") scheduler.addInterval(name, schedule as number, callback, options);
+        else scheduler.addTimeout(name, schedule as number, callback, options);
+      }
+    }
+  }
+
+  // resolveProviders method
+  // Used to create every singleton provider and await the async ones before any route is served
+  private async resolveProviders(): Promise<void> {
+    for (const { container, providers } of this.modules.values()) {
+      for (const token of providers) {
+        if (container.getScope(token) === "Singleton") {
+          await container.resolveAsync(token).catch((error) => {
+            this.logger.error(`Cannot create ${this.getTokenName(token)}`, { error });
+            throw error;
+          });
+        }
+      }
+    }
+
+    for (const { token, kind, container } of this.pendingGlobalEnhancers.splice(0)) {
+      const enhancer = await container.resolveAsync<any>(token);
+      if (kind === APP_GUARD) this.globalGuards.push(enhancer);
+      else if (kind === APP_FILTER) this.globalFilters.push(enhancer);
+      else if (kind === APP_PIPE) this.globalPipes.push(enhancer);
+      else this.globalInterceptors.push(enhancer);
+    }
+  }
+
+  // loadModule method
+  // Used to create the injector scope of a module, once per module class or dynamic module
+  // Imports are loaded first, then their exports are made visible to the module
+  // A module imported with forwardRef while it is still loading makes its exports visible once it is loaded
+  private async loadModule(module: ModuleImport, stack: (Constructor | DynamicModule)[]): Promise<ModuleInstance> {
+    const forward = isForwardReference(module);
+    const resolved = await (forward ? module.forwardRef() : module);
+    const existing = this.modules.get(resolved);
+    if (existing) {
+      return existing;
+    }
+
+    const metatype = isDynamicModule(resolved) ? resolved.module : resolved;
+    if (stack.includes(resolved)) {
+      const loading = this.loadingModules.get(resolved);
+      if (forward && loading) {
+        return loading;
+      }
+      const path = [...stack.slice(stack.indexOf(resolved)), resolved].map((entry) => (isDynamicModule(entry) ? entry.module : entry).name);
+      throw new Error(`Circular module import detected: ${path.join(" -> ")}, import the modules with forwardRef(() => ${metatype.name}) on both sides`);
+    }
+
+    const moduleMetadata: ModuleMetadata = Reflect.getMetadata("module", metatype);
+    if (!moduleMetadata) {
+      throw new Error(`Invalid module: ${metatype.name}`);
+    }
+
+    const dynamicMetadata: Partial<DynamicModule> = isDynamicModule(resolved) ? resolved : {};
+    const controllers = [...(moduleMetadata.controllers || []), ...(dynamicMetadata.controllers || [])];
+    const gateways = [...(moduleMetadata.gateways || []), ...(dynamicMetadata.gateways || [])];
+    const providers = [...(moduleMetadata.providers || []), ...(dynamicMetadata.providers || [])];
+    const imports = [...(moduleMetadata.imports || []), ...(dynamicMetadata.imports || [])];
+    const exports = [...(moduleMetadata.exports || []), ...(dynamicMetadata.exports || [])];
+
+    const instance: ModuleInstance = {
+      metatype,
+      container: new Container(this.container, metatype.name),
+      providers: new Set(),
+      controllers,
+      gateways,
+      exports: new Set(),
+      global: dynamicMetadata.global ?? !!Reflect.getMetadata("global", metatype),
+    };
+
+    this.loadingModules.set(resolved, instance);
+
+    const importedModules = new Map<Constructor | DynamicModule, ModuleInstance>();
+    for (const importedModule of imports) {
+      const importedInstance = await this.loadModule(importedModule, [...stack, resolved]);
+      importedModules.set(await (isForwardReference(importedModule) ? importedModule.forwardRef() : importedModule), importedInstance);
+      if ([...this.loadingModules.values()].includes(importedInstance)) {
+        // The imported module imports this one and is not loaded yet, its exports are not known
+        this.pendingImports.push({ importer: instance, imported: importedInstance });
+      } else {
+        importedInstance.exports.forEach((token) => instance.container.bindExternal(token, importedInstance.container));
+      }
+    }
+
+    for (const provider of providers) {
+      let token = typeof provider === "function" ? provider : provider.provide;
+      if (typeof provider !== "function" && GLOBAL_ENHANCERS.includes(token as symbol)) {
+        // Several global enhancers share a token, each one is bound to a token of its own
+        token = Symbol(String(token));
+        instance.container.register({ ...provider, provide: token } as Provider<any>);
+        this.pendingGlobalEnhancers.push({ token, kind: provider.provide as symbol, container: instance.container });
+        continue;
+      }
+      if (!instance.container.hasOwn(token)) {
+        instance.container.register(provider);
+      }
+      instance.providers.add(token);
+    }
+
+    for (const exported of exports) {
+      // A dynamic module is re-exported as is, or by its class
+      const exportedModule =
+        importedModules.get(exported as Constructor | DynamicModule) ??
+        [...importedModules].find(([imported]) => isDynamicModule(imported) && imported.module === exported)?.[1];
+      if (exportedModule) {
+        // Re-export of an imported module
+        exportedModule.exports.forEach((token) => instance.exports.add(token));
+      } else if (instance.container.hasOwn(exported as Token)) {
+        instance.exports.add(exported as Token);
+      } else {
+        throw new Error(`${metatype.name} cannot export ${this.getTokenName(exported as Token)}: it is neither a provider nor an imported module`);
+      }
+    }
+
+    if (instance.global) {
+      instance.exports.forEach((token) => this.container.bindExternal(token, instance.container));
+    }
+
+    for (const { importer } of this.pendingImports.filter(({ imported }) => imported === instance)) {
+      instance.exports.forEach((token) => importer.container.bindExternal(token, instance.container));
+    }
+    this.pendingImports = this.pendingImports.filter(({ imported }) => imported !== instance);
+
+    this.loadingModules.delete(resolved);
+    this.modules.set(resolved, instance);
+    this.logger.log(`${metatype.name} registered`, { providers: instance.providers.size, controllers: controllers.length, gateways: gateways.length });
+    controllers.forEach((controller) => this.registerController(controller, instance.container));
+    gateways.forEach((gateway) => this.registerGateway(gateway, instance.container));
+    return instance;
+  }
+
+  private getTokenName(token: Token): string {
+    return typeof token === "function" ? token.name : String(token);
+  }
+
+  // getRoutes method
+  // Used to get the routes from a controller, including the ones of its base classes
+  // Methods with route decorators but without an HTTP method decorator are reported by validateRoutes
+  private getRoutes(controller: Constructor): RouteMetadata[] {
+    const prototype = controller.prototype;
+
+    return getMethodNames(prototype)
+      .map((methodName) => {
+        const method = Reflect.getMetadata("method", prototype, methodName);
+        // If the method does not have the metadata, it is not a route
+        if (!method) {
+          const decorators = Reflect.ownKeys(getMetadataRecord(prototype, methodName)).filter((key) => key !== "events" && key !== "schedules");
+          if (decorators.length) {
+            this.skippedHandlers.push(`${controller.name}.${methodName} has route metadata (${decorators.map(String).join(", ")}) but no HTTP method decorator, it is not mapped`);
+          }
+          return null;
+        }
+        return {
+          method: method as keyof Pick<express.Application, "get" | "post" | "put" | "delete" | "patch">,
+          // @Get() without a path maps the controller prefix itself
+          path: (Reflect.getMetadata("path", prototype, methodName) as string | undefined) ?? "",
+          handlerName: methodName,
+        };
+      })
+      .filter((route) => route !== null) as RouteMetadata[];
+  }
+
+  // registerController method
+  // Used to register a controller with the framework
+  private async registerController(controller: Constructor, moduleContainer: Container): Promise<void> {
+    if (!moduleContainer.hasOwn(controller)) {
+      moduleContainer.register(controller);
+    }
+    const prefix = Reflect.getMetadata("prefix", controller);
+    const host: string | undefined = Reflect.getMetadata("host", controller);
+    const hostPattern = host ? compileHostPattern(host) : undefined;
+    const routes = this.getRoutes(controller);
+
+    const classMiddlewares: express.RequestHandler[] = Reflect.getMetadata("middlewares", controller) || [];
+    const classInterceptors: (Constructor<Interceptor> | Interceptor)[] = Reflect.getMetadata("interceptors", controller) || [];
+    const classFilters: (Constructor<ExceptionFilter> | ExceptionFilter)[] = Reflect.getMetadata("filters", controller) || [];
+    const classGuards: (Constructor<CanActivate> | CanActivate)[] = Reflect.getMetadata("guards", controller) || [];
+    const classPipes: Pipe[] = Reflect.getMetadata("pipes", controller) || [];
+
+    for (const { method, path, handlerName } of routes) {
+      const methodPipes: Pipe[] = Reflect.getMetadata("pipes", controller.prototype, handlerName) || [];
+
+      const methodMiddlewares = Reflect.getMetadata("middlewares", controller.prototype, handlerName) || [];
+      const methodInterceptors: (Constructor<Interceptor> | Interceptor)[] = Reflect.getMetadata("interceptors", controller.prototype, handlerName) || [];
+      const methodFilters: (Constructor<ExceptionFilter> | ExceptionFilter)[] = Reflect.getMetadata("filters", controller.prototype, handlerName) || [];
+      const methodGuards: (Constructor<CanActivate> | CanActivate)[] = Reflect.getMetadata("guards", controller.prototype, handlerName) || [];
+
+      const params: ParamMetadata[] = Reflect.getMetadata("params", controller.prototype, handlerName) || [];
+      const paramTypes: Function[] = Reflect.getMetadata("design:paramtypes", controller.prototype, handlerName) || [];
+      const responseMetadata: ResponseMetadata = {
+        httpCode: Reflect.getMetadata("httpCode", controller.prototype, handlerName),
+        headers: Reflect.getMetadata("headers", controller.prototype, handlerName) || [],
+        redirect: Reflect.getMetadata("redirect", controller.prototype, handlerName),
+        render: Reflect.getMetadata("render", controller.prototype, handlerName),
+        sse: Reflect.getMetadata("sse", controller.prototype, handlerName),
+        // With @Res() (without passthrough) the handler sends the response itself
+        handledByHandler: params.some((param) => param.type === "res" && !param.passthrough),
+      };
+
+      const serialization: SerializeMetadata | undefined = Reflect.getMetadata("serialize", controller.prototype, handlerName) || Reflect.getMetadata("serialize", controller);
+      const versions: VersionValue[] | undefined = Reflect.getMetadata("version", controller.prototype, handlerName) || Reflect.getMetadata("version", controller);
+      const route: RouteDefinition = { controller, handlerName, method, path: prefix + path || "/", params, host, versions };
+      this.routes.push(route);
+      this.logger.log(`Mapped {${method.toUpperCase()} ${route.path}} to ${controller.name}.${handlerName}`);
+
+      this.httpAdapter.route(
+        method,
+        route.path,
+        [
+          // Skip to the next matching route when the host does not match the controller host,
+          // or when the route does not serve the requested version
+          (req, res, next) => {
+            if (!this.matchesVersion(req, route)) {
+              return next("route");
+            }
+            if (hostPattern) {
+              const match = hostPattern.exec(this.httpAdapter.getRequestHostname(req));
+              if (!match) {
+                return next("route");
+              }
+              req.hosts = { ...match.groups };
+            }
+            next();
+          },
+          // Resolve the controller and its dependencies in the scope of its module
+          (req, res, next) => {
+            req.container = moduleContainer.inversifyContainer.createChild();
+            next();
+          },
+          this.bodyParserMiddleware.bind(this),
+          ...classMiddlewares,
+          ...methodMiddlewares,
+          this.createGuardMiddleware([...classGuards, ...methodGuards], controller, handlerName),
+          async (req, res, next) => {
+            try {
+              const requestContainer: InversifyContainer = req.container;
+              const instance = await requestContainer.getAsync(controller);
+
+              // A handler using @Res() sends the response itself, so it gets them before it runs and can still change them
+              if (responseMetadata.handledByHandler) {
+                this.applyResponseMetadata(responseMetadata, res);
+              }
+
+              const context = new ExecutionContextHost(controller, controller.prototype[handlerName], req, res);
+
+              // The innermost call handler runs the pipes and the handler itself
+              const handler: CallHandler = {
+                handle: async () => {
+                  const args = await this.resolveArgs(params, paramTypes, [...this.globalPipes, ...classPipes, ...methodPipes], context, requestContainer);
+                  const result = await instance[handlerName](...args);
+                  // Serialized before the interceptors, which only ever see the output of the schema
+                  // Event streams are sent as they are, their messages are not results
+                  return serialization && !responseMetadata.handledByHandler && !responseMetadata.sse ? this.serialize(result, serialization, context) : result;
+                },
+              };
+
+              const interceptors = [...this.globalInterceptors, ...classInterceptors, ...methodInterceptors];
+              const result = await this.createCallHandler(interceptors, context, handler, requestContainer).handle();
+
+              await this.sendResult(result, responseMetadata, res);
+            } catch (error) {
+              next(error);
+            }
+          },
+        ],
+        // Errors from middlewares, guards, interceptors, pipes and the handler end up here
+        this.createExceptionFilterMiddleware([...methodFilters, ...classFilters], controller, handlerName)
+      );
+    }
+  }
+
+  // serialize method
+  // Used to parse the result of a handler through the schema of @Serialize, for the groups of the request
+  // Any failure is a 500, so that a result not matching its schema is never sent
+  // Handlers returning nothing send an empty response, there is nothing to serialize
+  private async serialize(result: unknown, metadata: SerializeMetadata, context: ExecutionContext): Promise<unknown> {
+    if (result === undefined || result instanceof Readable || result instanceof StreamableFile || Buffer.isBuffer(result)) {
+      return result;
+    }
+    try {
+      const schema = this.getSerializationSchema(metadata.schemas, context);
+      const parse = (value: unknown) => (Array.isArray(value) && !(schema instanceof z.ZodArray) ? Promise.all(value.map((item) => schema.parseAsync(item))) : schema.parseAsync(value));
+      if (metadata.property === undefined) {
+        return await parse(result);
+      }
+      if (typeof result !== "object" || result === null) {
+        throw new Error(`Expected an object with a ${metadata.property} property`);
+      }
+      return { ...result, [metadata.property]: await parse((result as Record<string, unknown>)[metadata.property]) };
+    } catch (error) {
+      this.logger.error(`Cannot serialize the result of ${context.getClass().name}.${context.getHandler().name}`, { error });
+      throw new InternalServerErrorException(undefined, { cause: error });
+    }
+  }
+
+  // getSerializationSchema method
+  // Used to choose the schema of the first group of the request that has one, then the default one
+  private getSerializationSchema(schemas: z.ZodTypeAny | SerializationGroups, context: ExecutionContext): z.ZodTypeAny {
+    if (schemas instanceof z.ZodType) {
+      return schemas;
+    }
+    const groups = ([] as (string | undefined)[]).concat(this.serializationGroups?.(context));
+    const group = groups.find((candidate) => candidate !== undefined && Object.hasOwn(schemas, candidate)) ?? "default";
+    if (!Object.hasOwn(schemas, group)) {
+      throw new Error(`No serialization schema for the groups ${groups.filter(Boolean).join(", ") || "(none)"} and no default schema`);
+    }
+    return schemas[group];
+  }
+
+  // sendResult method
+  // Used to send the result of a handler according to the response decorators
+  // Streams and StreamableFile are piped, anything else is sent with the reply method of the adapter
+  private async sendResult(result: unknown, metadata: ResponseMetadata, res: ServerResponse): Promise<void> {
+    // An interceptor or the handler may have already written the response (e.g. a cached one)
+    if (metadata.handledByHandler || this.httpAdapter.isHeadersSent(res)) {
+      return;
+    }
+    this.applyResponseMetadata(metadata, res);
+    if (metadata.redirect) {
+      const override = (result || {}) as { url?: string; statusCode?: number };
+      this.httpAdapter.redirect(res, override.statusCode || metadata.redirect.statusCode, override.url || metadata.redirect.url);
+      return;
+    }
+    if (metadata.render) {
+      this.httpAdapter.reply(res, await this.httpAdapter.render(res, metadata.render, (result || {}) as object));
+      return;
+    }
+    if (metadata.sse) {
+      return this.sendEvents(result, metadata.sse.heartbeat, res);
+    }
+    if (result instanceof StreamableFile) {
+      Object.entries(result.getHeaders()).forEach(([name, value]) => !this.httpAdapter.getHeader(res, name) && this.httpAdapter.setHeader(res, name, value));
+      return this.pipeStream(result.getStream(), res);
+    }
+    if (result instanceof Readable) {
+      if (!this.httpAdapter.getHeader(res, "Content-Type")) {
+        this.httpAdapter.setHeader(res, "Content-Type", "application/octet-stream");
+      }
+      return this.pipeStream(result, res);
+    }
+    this.httpAdapter.reply(res, result);
+  }
+
+  // applyResponseMetadata method
+  // Used to set the status of @HttpCode and the headers of @Header, only on responses that are not errors
+  private applyResponseMetadata(metadata: ResponseMetadata, res: ServerResponse): void {
+    if (metadata.httpCode) {
+      this.httpAdapter.status(res, metadata.httpCode);
+    }
+    metadata.headers.forEach(([name, value]) => this.httpAdapter.setHeader(res, name, value));
+  }
+
+  // pipeStream method
+  // Used to pipe a stream to the response, the stream is destroyed if the client goes away
+  private pipeStream(stream: Readable, res: ServerResponse): Promise<void> {
+    const response = this.httpAdapter.getRawResponse(res);
+    return new Promise((resolve, reject) => {
+      stream.once("error", (error) => {
+        if (!response.headersSent) {
+          // Nothing was sent yet, the exception filters can still answer with their own headers
+          ["Content-Type", "Content-Length", "Content-Disposition"].forEach((name) => response.removeHeader(name));
+        }
+        reject(error);
+      });
+      response.once("finish", () => resolve());
+      response.once("close", () => {
+        stream.destroy();
+        resolve();
+      });
+      stream.pipe(response);
+    });
+  }
+
+  // sendEvents method
+  // Used to stream the messages of an @Sse handler, the iteration stops when the client disconnects
+  // An error once the stream is open is sent as an "error" event, since the status was already sent
+  // Waiting for the next message is raced against the disconnection, so an idle iterable does not keep the stream around
+  private async sendEvents(result: unknown, heartbeat: number, res: ServerResponse): Promise<void> {
+    let iterable: AsyncIterable<unknown>;
+    if (typeof (result as AsyncIterable<unknown>)?.[Symbol.asyncIterator] === "function") {
+      iterable = result as AsyncIterable<unknown>;
+    } else if (typeof (result as ObservableLike)?.subscribe === "function") {
+      iterable = observableToAsyncIterable(result as ObservableLike);
+    } else {
+      throw new Error("An @Sse handler must return an AsyncIterable or an observable");
+    }
+
+    const response = this.httpAdapter.getRawResponse(res);
+    this.httpAdapter.setHeader(res, "Content-Type", "text/event-stream");
+    this.httpAdapter.setHeader(res, "Cache-Control", "no-cache");
+    this.httpAdapter.setHeader(res, "Connection", "keep-alive");
+    // Keeps nginx from buffering the stream
+    this.httpAdapter.setHeader(res, "X-Accel-Buffering", "no");
+    response.flushHeaders();
+
+    const iterator = iterable[Symbol.asyncIterator]();
+    const timer = heartbeat > 0 ? setInterval(() => !response.writableEnded && response.write(": heartbeat\n\n"), heartbeat) : undefined;
+    let closed = false;
+    let onClose = () => {};
+    const disconnected = new Promise<IteratorResult<unknown>>((resolve) => {
+      onClose = () => {
+        closed = true;
+        clearInterval(timer);
+        resolve({ done: true, value: undefined });
+        Promise.resolve()
+          .then(() => iterator.return?.())
+          .catch((error) => this.logger.error("Failed to stop a Server-Sent Events stream", { error }));
+      };
+    });
+    response.once("close", onClose);
+    // The client may have gone away while the handler was resolving, its close event has already fired
+    if (response.destroyed) {
+      onClose();
+    }
+    this.eventStreams.add(response);
+    try {
+      while (!closed) {
+        const { value, done } = await Promise.race([iterator.next(), disconnected]);
+        // The response is ended early when the application shuts down
+        if (done || closed || response.writableEnded) {
+          break;
+        }
+        response.write(formatServerSentEvent(value));
+      }
+    } catch (error) {
+      if (!(error instanceof HttpException)) {
+        this.logger.error("Error in a Server-Sent Events stream", { error });
+      }
+      if (!closed && !response.writableEnded) {
+        const body = error instanceof HttpException ? error.getResponse() : { statusCode: 500, message: "Internal server error" };
+        response.write(formatServerSentEvent({ event: "error", data: body }));
+      }
+    } finally {
+      clearInterval(timer);
+      response.off("close", onClose);
+      this.eventStreams.delete(response);
+      response.end();
+    }
+  }
+
+  // createCallHandler method
+  // Used to wrap the handler in interceptors, the first interceptor being the outermost
+  private createCallHandler(
+    interceptors: (Constructor<Interceptor> | Interceptor)[],
+    context: ExecutionContext,
+    handler: CallHandler,
+    requestContainer: InversifyContainer
+  ): CallHandler {
+    return interceptors.reduceRight<CallHandler>((next, interceptor) => {
+      return {
+        handle: async () => (await this.resolveInstance(interceptor, requestContainer)).intercept(context, next),
+      };
+    }, handler);
+  }
+
+  // resolveInstance method
+  // Used to get an instance of a class from the container, or to create it when it is not registered
+  // Instances are returned as is
+  private async resolveInstance<T extends object>(type: Constructor<T> | T, requestContainer: InversifyContainer): Promise<T> {
+    if (typeof type !== "function") {
+      return type;
+    }
+    return requestContainer.isBound(type) ? requestContainer.getAsync<T>(type) : new type();
+  }
+
+  // resolveArgs method
+  // Used to read the arguments of a handler and run each of them through the pipes, then the pipes of its decorator
+  // Only body, query, route param, message and custom arguments go through the global, class and method pipes
+  private resolveArgs(params: ParamMetadata[], paramTypes: Function[], pipes: Pipe[], context: ExecutionContext, requestContainer: InversifyContainer): Promise<unknown[]> {
+    return Promise.all(
+      [...params]
+        .sort((a, b) => a.index - b.index)
+        .map((param) => {
+          const value = this.resolveParam(param, context);
+          const metadata: ArgumentMetadata = { type: param.type, data: param.data, metatype: paramTypes[param.index] };
+          const scopedPipes = PIPED_PARAM_TYPES.has(param.type) ? pipes : [];
+          return this.applyPipes(value, [...scopedPipes, ...(param.pipes || [])], metadata, context, requestContainer);
+        })
+    );
+  }
+
+  // resolveParam method
+  // Used to read the raw value of a handler argument from the request, or from the message in a gateway
+  private resolveParam(param: ParamMetadata, context: ExecutionContext): unknown {
+    const req = context.getRequest<FrameworkRequest>();
+    const pick = (source: Record<string, any> | undefined) => (param.data ? source?.[param.data] : source);
+    switch (param.type) {
+      case "param":
+        return pick(this.httpAdapter.getParams(req));
+      case "body":
+        return pick(this.httpAdapter.getBody(req) as Record<string, any> | undefined);
+      case "query":
+        return pick(this.httpAdapter.getQuery(req));
+      case "headers":
+        return param.data ? this.httpAdapter.getRequestHeaders(req)[param.data.toLowerCase()] : this.httpAdapter.getRequestHeaders(req);
+      case "cookies":
+        return pick(req.cookies ?? parseCookies(this.httpAdapter.getRequestHeader(req, "cookie")));
+      case "host":
+        return pick(req.hosts);
+      case "req":
+        return req;
+      case "res":
+        return context.getResponse();
+      case "ip":
+        return this.httpAdapter.getRequestIp(req);
+      case "session":
+        return req.session;
+      case "message":
+        return pick(context.switchToWs().getData());
+      case "socket":
+        return context.switchToWs().getClient();
+      case "custom":
+        return param.factory?.(param.data, context);
+      default:
+        return undefined;
+    }
+  }
+
+  // applyPipes method
+  // Used to run a value through pipes in order, each pipe receiving the previous pipe's output
+  private async applyPipes(
+    value: unknown,
+    pipes: Pipe[],
+    metadata: ArgumentMetadata,
+    context: ExecutionContext,
+    requestContainer: InversifyContainer
+  ): Promise<unknown> {
+    for (const pipe of pipes) {
+      value = await (await this.resolvePipe(pipe, requestContainer)).transform(value, metadata, context);
+    }
+    return value;
+  }
+
+  // resolvePipe method
+  // Used to turn any supported pipe form into a PipeTransform instance
+  // Pipe classes are resolved from the container when registered as providers
+  private async resolvePipe(pipe: Pipe, requestContainer: InversifyContainer): Promise<PipeTransform> {
+    if (pipe instanceof z.ZodType) {
+      return new ZodValidationPipe(pipe);
+    }
+    if (typeof pipe === "function") {
+      if (typeof pipe.prototype?.transform === "function") {
+        return this.resolveInstance(pipe as Constructor<PipeTransform>, requestContainer);
+      }
+      const pipeFunction = pipe as PipeFunction;
+      return { transform: (value) => pipeFunction(value) };
+    }
+    return pipe as PipeTransform;
+  }
+
+  // createExceptionFilterMiddleware method
+  // Used to create an exception filter middleware
+  // Route filters are tried first, then global filters, then the default exception handler
+  private createExceptionFilterMiddleware(
+    filters: (Constructor<ExceptionFilter> | ExceptionFilter)[],
+    controller: Constructor,
+    handlerName: string
+  ): AdapterErrorHandler {
+    return async (err, req, res, next): Promise<void> => {
+      const context = new ExecutionContextHost(controller, controller.prototype[handlerName], req, res);
+      try {
+        await this.handleException(err, [...filters, ...this.globalFilters], context, next);
+      } catch (error) {
+        // A filter failed, fall back to the default exception handler
+        this.sendDefaultException(error, req, res, next);
+      }
+    };
+  }
+
+  // handleException method
+  // Used to pass an exception to the first filter that catches it and sends a response
+  private async handleException(
+    exception: unknown,
+    filters: (Constructor<ExceptionFilter> | ExceptionFilter)[],
+    context: ExecutionContext,
+    next: (error?: unknown) => void
+  ): Promise<void> {
+    const req = context.getRequest<FrameworkRequest>();
+    const res = context.getResponse();
+    const requestContainer: InversifyContainer = req.container;
+    for (const filterType of filters) {
+      const filter = await this.resolveInstance(filterType, requestContainer);
+      const catches: Constructor<Error>[] = Reflect.getMetadata("catch", filter.constructor) || [];
+      if (catches.length && !catches.some((type) => exception instanceof type)) {
+        continue;
+      }
+      await filter.catch(exception as Error, context);
+      if (this.httpAdapter.isHeadersSent(res)) {
+        return;
+      }
+    }
+    this.sendDefaultException(exception, req, res, next);
+  }
+
+  // sendDefaultException method
+  // Used to send a JSON response for exceptions no filter handled
+  // HttpException keeps its status and response, anything else is a 500
+  private sendDefaultException(exception: unknown, req: FrameworkRequest, res: ServerResponse, next: (error?: unknown) => void): void {
+    if (this.httpAdapter.isHeadersSent(res)) {
+      // The response has started, let the adapter close the connection
+      return next(exception);
+    }
+    if (exception instanceof HttpException) {
+      this.httpAdapter.status(res, exception.getStatus());
+      this.httpAdapter.reply(res, exception.getResponse());
+      return;
+    }
+    if (exception instanceof z.ZodError) {
+      this.httpAdapter.status(res, 400);
+      this.httpAdapter.reply(res, { statusCode: 400, message: "Validation failed", errors: exception.errors });
+      return;
+    }
+    this.logger.error(`Unhandled exception on ${this.httpAdapter.getRequestMethod(req)} ${this.httpAdapter.getRequestUrl(req)}`, { error: exception });
+    this.httpAdapter.status(res, 500);
+    this.httpAdapter.reply(res, { statusCode: 500, message: "Internal server error" });
+  }
+
+  private createGuardMiddleware(guards: (Constructor<CanActivate> | CanActivate)[], controller: Constructor, handlerName: string): AdapterHandler {
+    return async (req, res, next): Promise<void> => {
+      try {
+        const requestContainer = req.container;
+        const context = new ExecutionContextHost(controller, controller.prototype[handlerName], req, res);
+        for (const guardType of [...this.globalGuards, ...guards]) {
+          // Get the guard instance from the request container
+          const guard = await this.resolveInstance(guardType, requestContainer);
+          const canActivate = await guard.canActivate(context);
+          if (!canActivate) {
+            throw new ForbiddenException();
+          }
+        }
+        next();
+      } catch (error) {
+        next(error);
+      }
+    };
+  }
+
+  // registerGateway method
+  // Used to register a gateway with the framework, its @SubscribeMessage methods handle the messages of its clients
+  // Gateway and method guards, pipes, interceptors and filters apply, global enhancers only apply to HTTP routes
+  private registerGateway(gateway: Constructor, moduleContainer: Container): void {
+    const options: Required<WebSocketGatewayOptions> | undefined = Reflect.getMetadata("gateway", gateway);
+    if (!options) {
+      throw new Error(`${gateway.name} is listed in the gateways of a module but is not decorated with @WebSocketGateway()`);
+    }
+    if (!moduleContainer.hasOwn(gateway)) {
+      moduleContainer.register(gateway);
+    }
+    const prototype = gateway.prototype;
+    const container = moduleContainer.inversifyContainer;
+
+    const classInterceptors: (Constructor<Interceptor> | Interceptor)[] = Reflect.getMetadata("interceptors", gateway) || [];
+    const classFilters: (Constructor<ExceptionFilter> | ExceptionFilter)[] = Reflect.getMetadata("filters", gateway) || [];
+    const classGuards: (Constructor<CanActivate> | CanActivate)[] = Reflect.getMetadata("guards", gateway) || [];
+    const classPipes: Pipe[] = Reflect.getMetadata("pipes", gateway) || [];
+
+    const subscribers = new Map<string, string>();
+    for (const methodName of getMethodNames(prototype)) {
+      const event: string | undefined = Reflect.getMetadata("message", prototype, methodName);
+      if (event === undefined) {
+        continue;
+      }
+      if (subscribers.has(event)) {
+        throw new Error(`${gateway.name}.${methodName} subscribes to ${event}, which is already handled by ${gateway.name}.${subscribers.get(event)}`);
+      }
+      subscribers.set(event, methodName);
+      this.logger.log(`Mapped {WS ${options.path} ${event}} to ${gateway.name}.${methodName}`);
+    }
+
+    this.container.resolve(WsServer).addGateway(options, {
+      connect: async (client) => {
+        try {
+          await (await moduleContainer.resolveAsync<any>(gateway)).handleConnection?.(client, client.request);
+          return true;
+        } catch (error) {
+          // Throwing a WsException or an HttpException refuses the client, anything else is a server error
+          const refused = error instanceof WsException || error instanceof HttpException;
+          if (!refused) {
+            this.logger.error(`Cannot connect a client to ${gateway.name}`, { error });
+          }
+          client.close(refused ? 1008 : 1011, refused ? (error as Error).message : "Internal server error");
+          return false;
+        }
+      },
+      disconnect: async (client) => {
+        try {
+          await (await moduleContainer.resolveAsync<any>(gateway)).handleDisconnect?.(client);
+        } catch (error) {
+          this.logger.error(`Error while disconnecting a client from ${gateway.name}`, { error });
+        }
+      },
+      message: async (client, { event, data, id }) => {
+        const methodName = subscribers.get(event);
+        if (methodName === undefined) {
+          client.send("exception", { status: "error", message: `No handler for ${event}` }, id);
+          return;
+        }
+        const context = new ExecutionContextHost(gateway, prototype[methodName], client.request, client, { client, data });
+        const methodFilters: (Constructor<ExceptionFilter> | ExceptionFilter)[] = Reflect.getMetadata("filters", prototype, methodName) || [];
+        try {
+          const methodGuards: (Constructor<CanActivate> | CanActivate)[] = Reflect.getMetadata("guards", prototype, methodName) || [];
+          for (const guardType of [...classGuards, ...methodGuards]) {
+            const guard = await this.resolveInstance(guardType, container);
+            if (!(await guard.canActivate(context))) {
+              throw new WsException("Forbidden");
+            }
+          }
+
+          const instance = await moduleContainer.resolveAsync<any>(gateway);
+          const params: ParamMetadata[] = Reflect.getMetadata("params", prototype, methodName) || [];
+          const paramTypes: Function[] = Reflect.getMetadata("design:paramtypes", prototype, methodName) || [];
+          const methodPipes: Pipe[] = Reflect.getMetadata("pipes", prototype, methodName) || [];
+          const handler: CallHandler = {
+            handle: async () => instance[methodName](...(await this.resolveArgs(params, paramTypes, [...classPipes, ...methodPipes], context, container))),
+          };
+          const methodInterceptors: (Constructor<Interceptor> | Interceptor)[] = Reflect.getMetadata("interceptors", prototype, methodName) || [];
+          const result = await this.createCallHandler([...classInterceptors, ...methodInterceptors], context, handler, container).handle();
+          if (result !== undefined) {
+            client.send(event, result, id);
+          }
+        } catch (error) {
+          await this.handleWsException(error, [...methodFilters, ...classFilters], context, container, id);
+        }
+      },
+    });
+  }
+
+  // handleWsException method
+  // Used to pass an exception of a gateway handler to the first filter that catches it,
+  // by default the client gets an "exception" message with the error of a WsException or the response of an HttpException
+  private async handleWsException(
+    exception: unknown,
+    filters: (Constructor<ExceptionFilter> | ExceptionFilter)[],
+    context: ExecutionContext,
+    container: InversifyContainer,
+    id?: WsMessage["id"]
+  ): Promise<void> {
+    try {
+      for (const filterType of filters) {
+        const filter = await this.resolveInstance(filterType, container);
+        const catches: Constructor<Error>[] = Reflect.getMetadata("catch", filter.constructor) || [];
+        if (!catches.length || catches.some((type) => exception instanceof type)) {
+          return await filter.catch(exception as Error, context);
+        }
+      }
+    } catch (error) {
+      // A filter failed, fall back to the default exception message
+      exception = error;
+    }
+
+    const client = context.switchToWs().getClient();
+    if (exception instanceof WsException) {
+      client.send("exception", exception.getError(), id);
+    } else if (exception instanceof HttpException) {
+      client.send("exception", { status: "error", ...exception.getResponse() }, id);
+    } else if (exception instanceof z.ZodError) {
+      client.send("exception", { status: "error", message: "Validation failed", errors: exception.errors }, id);
+    } else {
+      this.logger.error(`Unhandled exception in ${context.getClass().name}.${context.getHandler().name}`, { error: exception });
+      client.send("exception", { status: "error", message: "Internal server error" }, id);
+    }
+  }
+
+  // useGlobalGuards method
+  // Used to apply guards to every route, they run before controller and route guards
+  useGlobalGuards(...guards: (Constructor<CanActivate> | CanActivate)[]): void {
+    this.globalGuards.push(...guards);
+  }
+
+  // useGlobalFilters method
+  // Used to apply exception filters to every route, they are tried after controller and route filters
+  useGlobalFilters(...filters: (Constructor<ExceptionFilter> | ExceptionFilter)[]): void {
+    this.globalFilters.push(...filters);
+  }
+
+  // useGlobalPipes method
+  // Used to apply pipes to every handler argument, they run before controller, route and parameter pipes
+  useGlobalPipes(...pipes: Pipe[]): void {
+    this.globalPipes.push(...pipes);
+  }
+
+  // useGlobalInterceptors method
+  // Used to apply interceptors to every route, they run outside controller and route interceptors
+  useGlobalInterceptors(...interceptors: (Constructor<Interceptor> | Interceptor)[]): void {
+    this.globalInterceptors.push(...interceptors);
+  }
+
+  // useSerializationGroups method
+  // Used to choose the groups of a request for @Serialize with a schema per group, e.g. from the roles of the user
+  // The first group with a schema is used, then the "default" one
+  useSerializationGroups(resolver: (context: ExecutionContext) => string | string[] | undefined): void {
+    this.serializationGroups = resolver;
+  }
+
+  // useLogger method
+  // Used to replace the implementation every Logger writes to, e.g. new ConsoleLogger({ format: "json" })
+  useLogger(service: LoggerService): void {
+    Logger.overrideLogger(service);
+  }
+
+  // enableRequestLogging method
+  // Used to log the method, route pattern, status and duration of every request
+  enableRequestLogging(): void {
+    this.requestLogging = true;
+  }
+
+  // enableVersioning method
+  // Used to serve several versions of the routes side by side, requests for a version no route serves get a 404
+  enableVersioning(options: VersioningOptions): void {
+    this.versioningOptions = options;
+    this.updateKnownVersions();
+  }
+
+  // enableStrictRouting method
+  // Used to make registerModule reject duplicate and shadowed routes, and controller methods that are not routes,
+  // instead of logging a warning
+  enableStrictRouting(): void {
+    this.strictRouting = true;
+  }
+
+  // enableOpenApi method
+  // Used to configure the OpenAPI document and optionally serve it as JSON at options.path
+  enableOpenApi(options: OpenApiOptions): void {
+    this.openApiOptions = options;
+    if (options.path) {
+      this.httpAdapter.route("get", options.path, [(req, res) => this.httpAdapter.reply(res, this.getOpenApiDocument())]);
+    }
+  }
+
+  // getOpenApiDocument method
+  // Used to build the OpenAPI document from every route registered so far
+  getOpenApiDocument(): OpenApiDocument {
+    const routes = this.routes.map((route) => ({ ...route, versions: this.versioningOptions && this.getRouteVersions(route) }));
+    return new OpenApiGenerator(this.openApiOptions, this.versioningOptions).generate(routes);
+  }
+
+  // getRouteTable method
+  // Used to list every registered route, in the order express matches them
+  getRouteTable(): RouteInfo[] {
+    return this.routes.map(({ method, path, controller, handlerName, host, versions }) => ({
+      method: method.toUpperCase() as RouteInfo["method"],
+      path,
+      controller,
+      handlerName,
+      host,
+      versions: this.versioningOptions && this.getRouteVersions({ versions }),
+    }));
+  }
+
+  // getHttpAdapter method
+  // Used to reach the HTTP adapter, and through getInstance() the underlying server, e.g. the express application
+  getHttpAdapter(): HttpAdapter {
+    return this.httpAdapter;
+  }
+
+  // get method
+  // Used to resolve a provider or controller from the module that declares it
+  get<T>(token: Token<T>): T {
+    for (const instance of this.modules.values()) {
+      if (instance.providers.has(token) || instance.controllers.includes(token as Constructor)) {
+        return instance.container.resolve(token);
+      }
+    }
+    return this.container.resolve(token);
+  }
+
+  // inject method
+  // Used to dispatch a request through the application in memory, without listening on a port
+  // Rejects when the connection is closed before the response is sent, or when no response is sent within the timeout
+  inject(request: InjectRequest): Promise<InjectResponse> {
+    return new Promise((resolve, reject) => {
+      const socket = InMemorySocket.create();
+      const req = new IncomingMessage(socket);
+      const headers: Record<string, string> = {};
+      for (const [name, value] of Object.entries(request.headers || {})) {
+        headers[name.toLowerCase()] = value;
+      }
+
+      let payload: Buffer | undefined;
+      if (request.body !== undefined) {
+        const isRaw = typeof request.body === "string" || Buffer.isBuffer(request.body);
+        payload = isRaw ? Buffer.from(request.body as string | Buffer) : Buffer.from(JSON.stringify(request.body));
+        headers["content-type"] ??= isRaw ? "text/plain" : "application/json";
+        headers["content-length"] = String(payload.length);
+      }
+
+      req.method = (request.method || "GET").toUpperCase();
+      req.url = request.url;
+      req.headers = headers;
+      req.httpVersion = "1.1";
+      if (payload) {
+        req.push(payload);
+      }
+      req.push(null);
+      // The whole request is already there, an incomplete request would have its socket destroyed once read
+      req.complete = true;
+
+      const res = new ServerResponse(req);
+      res.assignSocket(socket);
+
+      const timeout = request.timeout ?? 10_000;
+      const timer = setTimeout(() => {
+        reject(new Error(`No response to ${req.method} ${req.url} within ${timeout}ms`));
+        res.destroy();
+      }, timeout);
+      const onClose = () => {
+        clearTimeout(timer);
+        reject(new Error(`The connection was closed before a response to ${req.method} ${req.url} was sent`));
+      };
+      socket.once("close", onClose);
+
+      const chunks: Buffer[] = [];
+      const collect = (chunk: unknown, encoding?: unknown) => {
+        if (chunk !== undefined && chunk !== null && typeof chunk !== "function") {
+          chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk as string, typeof encoding === "string" ? (encoding as BufferEncoding) : "utf8"));
+        }
+      };
+      const write = res.write;
+      const end = res.end;
+      res.write = function (this: ServerResponse, chunk: any, ...args: any[]) {
+        collect(chunk, args[0]);
+        return (write as Function).apply(this, [chunk, ...args]);
+      } as typeof res.write;
+      res.end = function (this: ServerResponse, chunk?: any, ...args: any[]) {
+        collect(chunk, args[0]);
+        const result = (end as Function).apply(this, [chunk, ...args]);
+        const body = Buffer.concat(chunks).toString("utf8");
+        clearTimeout(timer);
+        socket.off("close", onClose);
+        resolve({
+          statusCode: res.statusCode,
+          headers: res.getHeaders(),
+          body,
+          json: <T = any>() => JSON.parse(body) as T,
+        });
+        return result;
+      } as typeof res.end;
+
+      try {
+        this.httpAdapter.getRequestListener()(req, res);
+      } catch (error) {
+        clearTimeout(timer);
+        reject(error);
+      }
+    });
+  }
+
+  // init method
+  // Used to call the onModuleInit and onApplicationBootstrap hooks, listen() calls it
+  async init(): Promise<void> {
+    if (this.isInitialized) {
+      return;
+    }
+    this.isInitialized = true;
+    const instances = this.getLifecycleInstances();
+    for (const instance of instances) {
+      await instance.onModuleInit?.();
+    }
+    const wsServer = this.container.resolve(WsServer);
+    for (const { container, gateways } of this.modules.values()) {
+      for (const gateway of gateways) {
+        await container.resolve<any>(gateway).afterInit?.(wsServer);
+      }
+    }
+    for (const instance of instances) {
+      await instance.onApplicationBootstrap?.();
+    }
+    this.container.resolve(SchedulerRegistry).start();
+  }
+
+  listen(port: number, callback?: () => void): Promise<Server> {
+    return this.init().then(
+      () =>
+        new Promise<Server>((resolve, reject) => {
+          const server = this.httpAdapter.listen(port, () => {
+            callback?.();
+            resolve(server);
+          });
+          server.once("error", reject);
+          this.container.resolve(WsServer).attach(server);
+          this.server = server;
+        })
+    );
+  }
+
+  // enableShutdownHooks method
+  // Used to close the application gracefully when the process receives one of the signals
+  enableShutdownHooks(signals: NodeJS.Signals[] = ["SIGTERM", "SIGINT"], options: ShutdownHooksOptions = {}): void {
+    this.shutdownTimeout = options.timeout ?? this.shutdownTimeout;
+    for (const signal of signals) {
+      const listener = () => {
+        this.close(signal)
+          .catch((error) => this.logger.error("Error during shutdown", { error }))
+          .finally(() => process.kill(process.pid, signal));
+      };
+      process.once(signal, listener);
+      this.shutdownSignals.push({ signal, listener });
+    }
+  }
+
+  // close method
+  // Used to stop accepting connections, drain in-flight requests, then call the shutdown hooks
+  // Calls made while the application is closing get the same promise, settled once it is closed
+  close(signal?: string): Promise<void> {
+    this.shutdown ??= this.runShutdown(signal);
+    return this.shutdown;
+  }
+
+  // runShutdown method
+  // Used to close the application once, see close
+  private async runShutdown(signal?: string): Promise<void> {
+    this.isShuttingDown = true;
+    // Removing the listeners lets the signal, re-sent once closed, end the process
+    this.shutdownSignals.forEach(({ signal, listener }) => process.removeListener(signal, listener));
+    // Scheduled runs in progress are given the same time as in-flight requests to finish
+    await Promise.race([this.container.resolve(SchedulerRegistry).stop(), new Promise((resolve) => setTimeout(resolve, this.shutdownTimeout).unref())]);
+
+    if (this.server) {
+      // Upgraded connections are not closed with the server, and event streams would keep it draining until the timeout
+      this.container.resolve(WsServer).close();
+      this.eventStreams.forEach((response) => response.end());
+      await this.closeServer(this.server);
+    }
+
+    const instances = this.getLifecycleInstances().reverse();
+    for (const instance of instances) {
+      await instance.beforeApplicationShutdown?.(signal);
+    }
+    for (const instance of instances) {
+      await instance.onModuleDestroy?.();
+    }
+  }
+
+  // closeServer method
+  // Used to close the server, waiting up to the shutdown timeout for in-flight requests
+  private async closeServer(server: Server): Promise<void> {
+    const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+    server.closeIdleConnections();
+
+    let timer: NodeJS.Timeout | undefined;
+    const drained = this.inFlightRequests === 0 ? Promise.resolve() : new Promise<void>((resolve) => (this.onDrained = resolve));
+    await Promise.race([drained, new Promise((resolve) => (timer = setTimeout(resolve, this.shutdownTimeout)))]);
+    clearTimeout(timer);
+    this.onDrained = undefined;
+    server.closeAllConnections();
+    await closed;
+  }
+
+  // getLifecycleInstances method
+  // Used to get the singleton providers, controllers and gateways of every module, in dependency order:
+  // each instance comes after the instances it is created with, wherever they are registered
+  private getLifecycleInstances(): any[] {
+    const declared = new Set<any>();
+    for (const { container, providers, controllers, gateways } of this.modules.values()) {
+      for (const token of [...providers, ...controllers, ...gateways]) {
+        if (container.getScope(token) === "Singleton") {
+          const instance = container.resolve(token);
+          if (instance && typeof instance === "object") {
+            declared.add(instance);
+          }
+        }
+      }
+    }
+
+    const instances = new Set<any>();
+    const visited = new Map<Container, Set<Token>>();
+    const visit = (container: Container, token: Token) => {
+      const owner = container.getOwner(token);
+      if (!owner) {
+        return;
+      }
+      const tokens = visited.get(owner) ?? visited.set(owner, new Set()).get(owner)!;
+      if (tokens.has(token)) {
+        return;
+      }
+      tokens.add(token);
+      owner.getCreationDependencies(token).forEach((dependency) => visit(owner, dependency));
+      if (owner.getScope(token) === "Singleton") {
+        const instance = owner.resolve(token);
+        if (declared.has(instance)) {
+          instances.add(instance);
+        }
+      }
+    };
+    for (const { container, providers, controllers, gateways } of this.modules.values()) {
+      [...providers, ...controllers, ...gateways].forEach((token) => visit(container, token));
+    }
+    return [...instances];
+  }
+}
+
+// InMemorySocket class
+// Used as the socket of requests dispatched with MiniFramework.inject, written data is discarded
+// Only implements the part of net.Socket used by http and the adapters
+class InMemorySocket extends Writable {
+  remoteAddress = "127.0.0.1";
+  remotePort = 0;
+  encrypted = false;
+
+  // create method
+  // Used to create a socket typed as the net.Socket that IncomingMessage and ServerResponse expect
+  static create(): Socket {
+    return new InMemorySocket() as unknown as Socket;
+  }
+
+  _write(chunk: unknown, encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    callback();
+  }
+
+  setTimeout(): this {
+    return this;
+  }
+
+  setNoDelay(): this {
+    return this;
+  }
+
+  setKeepAlive(): this {
+    return this;
+  }
+}
+
+interface InjectRequest {
+  method?: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: unknown;
+  // Milliseconds to wait for the response before rejecting, 10 seconds by default
+  timeout?: number;
+}
+
+interface InjectResponse {
+  statusCode: number;
+  headers: Record<string, number | string | string[] | undefined>;
+  body: string;
+  json<T = any>(): T;
+}
+
+export {
+  MiniFramework,
+};
+
+export type {
+  InjectRequest,
+  InjectResponse,
+};
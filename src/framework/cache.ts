@@ -0,0 +1,256 @@
+import { Readable } from "stream";
+import { z } from "zod";
+import {
+  Header,
+  HttpAdapterHost,
+  Inject,
+  Injectable,
+  Module,
+  Reflector,
+  StreamableFile,
+  createDecorator,
+  type CallHandler,
+  type DynamicModule,
+  type ExecutionContext,
+  type FrameworkRequest,
+  type Interceptor,
+  type SerializeMetadata,
+} from "./core";
+
+// CacheStore interface
+// Where cached values are kept, ttl is in milliseconds (no expiry when omitted)
+// Implement it to keep the cache elsewhere, e.g. in Redis
+interface CacheStore {
+  get<T = unknown>(key: string): T | undefined | Promise<T | undefined>;
+  set(key: string, value: unknown, ttl?: number): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+// MemoryStore class
+// In-memory store, the least recently used entries are evicted beyond `max` entries
+class MemoryStore implements CacheStore {
+  private entries = new Map<string, { value: unknown; expiresAt?: number }>();
+
+  constructor(private options: { max?: number } = {}) {}
+
+  get<T = unknown>(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    // Moved to the end, as the most recently used entry
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  set(key: string, value: unknown, ttl?: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: ttl ? Date.now() + ttl : undefined });
+    const max = this.options.max ?? 1000;
+    while (this.entries.size > max) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+// Cache module options
+// store: Where values are kept (default: a MemoryStore of `max` entries)
+// ttl: Default time to live in milliseconds, overridden with @CacheTTL
+// headers: Request headers that are part of the keys of cached responses, e.g. ["accept-language"]
+// isGlobal: Makes CacheManager and CacheInterceptor available to every module
+interface CacheModuleOptions {
+  store?: CacheStore;
+  ttl?: number;
+  max?: number;
+  headers?: string[];
+  isGlobal?: boolean;
+}
+
+const CACHE_MODULE_OPTIONS = Symbol("CACHE_MODULE_OPTIONS");
+
+// CacheManager class
+// Injectable access to the cache from services
+class CacheManager {
+  constructor(private store: CacheStore, private defaultTtl?: number) {}
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    return this.store.get<T>(key);
+  }
+
+  async set(key: string, value: unknown, ttl = this.defaultTtl): Promise<void> {
+    await this.store.set(key, value, ttl);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+
+  // wrap method
+  // Used to get a cached value, computing and caching it when missing
+  async wrap<T>(key: string, compute: () => T | Promise<T>, ttl = this.defaultTtl): Promise<T> {
+    const cached = await this.get<T>(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const value = await compute();
+    await this.set(key, value, ttl);
+    return value;
+  }
+}
+
+// Cache decorators
+// CacheKey: The key of the cached response of a route, instead of one built from the URL and headers
+// CacheTTL: The time to live of the cached responses of a route or controller, in milliseconds
+function CacheKey(key: string): MethodDecorator {
+  return createDecorator("cache:key", key) as MethodDecorator;
+}
+
+function CacheTTL(ttl: number): MethodDecorator & ClassDecorator {
+  return createDecorator("cache:ttl", ttl) as MethodDecorator & ClassDecorator;
+}
+
+// CacheInterceptor class
+// Used to serve GET responses from the cache, e.g. @UseInterceptors(CacheInterceptor)
+// Streams and responses sent with @Res() are not cached
+// Routes serialized with groups answer each user with their own view, they are only cached under a @CacheKey
+// Other responses depending on the user need the headers identifying the user in the key
+@Injectable()
+class CacheInterceptor implements Interceptor {
+  constructor(
+    @Inject(CacheManager) private cache: CacheManager,
+    @Inject(Reflector) private reflector: Reflector,
+    @Inject(CACHE_MODULE_OPTIONS) private options: CacheModuleOptions,
+    @Inject(HttpAdapterHost) private adapterHost: HttpAdapterHost
+  ) {}
+
+  async intercept(context: ExecutionContext, next: CallHandler): Promise<unknown> {
+    const { httpAdapter } = this.adapterHost;
+    if (httpAdapter.getRequestMethod(context.getRequest()) !== "GET") {
+      return next.handle();
+    }
+    const key = this.getKey(context);
+    if (key === undefined) {
+      return next.handle();
+    }
+    const cached = await this.cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+    const result = await next.handle();
+    if (result !== undefined && !(result instanceof Readable) && !(result instanceof StreamableFile) && !httpAdapter.isHeadersSent(context.getResponse())) {
+      await this.cache.set(key, result, this.reflector.getAllAndOverride<number>("cache:ttl", [context.getHandler(), context.getClass()]));
+    }
+    return result;
+  }
+
+  // getKey method
+  // Used to build the key of a response: @CacheKey, or the URL, the requested version and the configured headers
+  // The version is part of the key since header and media-type versioning serve several versions on the same URL
+  // Undefined for the routes serialized with groups, which are not cached without @CacheKey
+  private getKey(context: ExecutionContext): string | undefined {
+    const key = this.reflector.get<string>("cache:key", context.getHandler());
+    if (key) {
+      return key;
+    }
+    const serialization = this.reflector.getAllAndOverride<SerializeMetadata>("serialize", [context.getHandler(), context.getClass()]);
+    if (serialization && !(serialization.schemas instanceof z.ZodType)) {
+      return undefined;
+    }
+    const { httpAdapter } = this.adapterHost;
+    const req = context.getRequest<FrameworkRequest>();
+    const version = req.version === undefined ? [] : [`version=${req.version}`];
+    const headers = (this.options.headers || []).map((name) => `${name.toLowerCase()}=${httpAdapter.getRequestHeader(req, name) ?? ""}`);
+    return [httpAdapter.getRequestUrl(req), ...version, ...headers].join("|");
+  }
+}
+
+// CacheModule
+// CacheModule.forRoot provides CacheManager and CacheInterceptor
+@Module({})
+class CacheModule {
+  static forRoot(options: CacheModuleOptions = {}): DynamicModule {
+    const store = options.store || new MemoryStore({ max: options.max });
+    return {
+      module: CacheModule,
+      global: options.isGlobal,
+      providers: [
+        { provide: CACHE_MODULE_OPTIONS, useValue: options },
+        { provide: CacheManager, useValue: new CacheManager(store, options.ttl) },
+        CacheInterceptor,
+      ],
+      exports: [CacheManager, CacheInterceptor, CACHE_MODULE_OPTIONS],
+    };
+  }
+}
+
+// Cache-Control options
+// Each option is a directive of the Cache-Control header, maxAge and sMaxAge are in seconds
+interface CacheControlOptions {
+  public?: boolean;
+  private?: boolean;
+  noCache?: boolean;
+  noStore?: boolean;
+  mustRevalidate?: boolean;
+  immutable?: boolean;
+  maxAge?: number;
+  sMaxAge?: number;
+  staleWhileRevalidate?: number;
+}
+
+// CacheControl decorator
+// Used to set the Cache-Control header of a route, e.g. @CacheControl({ public: true, maxAge: 60 })
+function CacheControl(options: CacheControlOptions): MethodDecorator {
+  const directives = [
+    options.public && "public",
+    options.private && "private",
+    options.noCache && "no-cache",
+    options.noStore && "no-store",
+    options.mustRevalidate && "must-revalidate",
+    options.immutable && "immutable",
+    options.maxAge !== undefined && `max-age=${options.maxAge}`,
+    options.sMaxAge !== undefined && `s-maxage=${options.sMaxAge}`,
+    options.staleWhileRevalidate !== undefined && `stale-while-revalidate=${options.staleWhileRevalidate}`,
+  ];
+  return Header("Cache-Control", directives.filter(Boolean).join(", "));
+}
+
+// NoStore decorator
+// Used to prevent clients and proxies from storing the response of a route
+function NoStore(): MethodDecorator {
+  return CacheControl({ noStore: true });
+}
+
+export {
+  MemoryStore,
+  CacheManager,
+  CacheKey,
+  CacheTTL,
+  CacheInterceptor,
+  CacheModule,
+  CacheControl,
+  NoStore,
+};
+
+export type {
+  CacheStore,
+  CacheModuleOptions,
+  CacheControlOptions,
+};
@@ -0,0 +1,139 @@
+import { z } from "zod";
+import dotenv from "dotenv";
+import { existsSync, readFileSync } from "fs";
+import { Module, type DynamicModule } from "./core";
+
+// Config types
+// ConfigShape: The values of a config, from a Zod schema or a plain object type
+// ConfigPath: The keys of a config, nested values being reached with dotted paths (e.g. "database.host")
+type ConfigShape<T> = T extends z.ZodTypeAny ? z.infer<T> : T;
+type ConfigPath<T> = T extends Record<string, any>
+  ? { [K in keyof T & string]: T[K] extends Record<string, any> ? (T[K] extends any[] ? K : K | `${K}.${ConfigPath<T[K]>}`) : K }[keyof T & string]
+  : never;
+type ConfigPathValue<T, P extends string> = P extends keyof T
+  ? T[P]
+  : P extends `${infer K}.${infer Rest}`
+    ? K extends keyof T
+      ? ConfigPathValue<T[K], Rest>
+      : never
+    : never;
+
+// Config factory
+// Returns the values of a config namespace, registered with registerAs
+type ConfigFactory<T extends Record<string, any> = Record<string, any>> = () => T | Promise<T>;
+type NamespacedConfigFactory<N extends string = string, T extends Record<string, any> = Record<string, any>> = ConfigFactory<T> & { KEY: string; namespace: N };
+type ConfigType<F extends ConfigFactory> = Awaited<ReturnType<F>>;
+
+// registerAs function
+// Used to create a config namespace, read with config.get(namespace) or injected with @Inject(factory.KEY)
+function registerAs<N extends string, T extends Record<string, any>>(namespace: N, factory: ConfigFactory<T>): NamespacedConfigFactory<N, T> {
+  return Object.assign(() => factory(), { KEY: `CONFIGURATION(${namespace})`, namespace });
+}
+
+// Config module options
+// schema: Validates and coerces the environment variables, every invalid key is reported at startup
+// envFilePath: The .env files to load, later files override earlier ones (default: .env, .env.local, .env.${NODE_ENV})
+// ignoreEnvFile: Only read process.env
+// load: Config namespaces created with registerAs
+// isGlobal: Makes ConfigService available to every module without importing ConfigModule
+interface ConfigModuleOptions<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  schema?: S;
+  envFilePath?: string | string[];
+  ignoreEnvFile?: boolean;
+  load?: NamespacedConfigFactory[];
+  isGlobal?: boolean;
+}
+
+// ConfigValidationError
+// Thrown at startup when the environment does not match the config schema
+class ConfigValidationError extends Error {
+  constructor(public readonly issues: { key: string; message: string }[]) {
+    super(`Invalid configuration:\n${issues.map(({ key, message }) => `  - ${key}: ${message}`).join("\n")}`);
+    this.name = "ConfigValidationError";
+  }
+}
+
+// ConfigService class
+// Reads config values: validated environment variables and config namespaces
+// Provided by ConfigModule.forRoot, typed with the schema, e.g. ConfigService<typeof envSchema>
+class ConfigService<T = Record<string, any>> {
+  constructor(private readonly internalConfig: Record<string, any> = {}) {}
+
+  // get method
+  // Used to read a value by key or dotted path, process.env is used for keys that are not part of the config
+  get<P extends ConfigPath<ConfigShape<T>>>(key: P, defaultValue?: ConfigPathValue<ConfigShape<T>, P>): ConfigPathValue<ConfigShape<T>, P> {
+    const value = key.split(".").reduce<any>((config, part) => config?.[part], this.internalConfig);
+    return value ?? (key in this.internalConfig ? undefined : process.env[key]) ?? defaultValue;
+  }
+
+  // getOrThrow method
+  // Used to read a value that must be defined
+  getOrThrow<P extends ConfigPath<ConfigShape<T>>>(key: P): NonNullable<ConfigPathValue<ConfigShape<T>, P>> {
+    const value = this.get(key);
+    if (value === undefined || value === null) {
+      throw new Error(`Configuration key "${key}" is not defined`);
+    }
+    return value;
+  }
+}
+
+// loadEnvFiles function
+// Used to read the .env files that exist, later files override earlier ones
+function loadEnvFiles(paths: string[]): Record<string, string> {
+  return paths.filter((path) => existsSync(path)).reduce((env, path) => ({ ...env, ...dotenv.parse(readFileSync(path)) }), {});
+}
+
+// loadConfig function
+// Used to build the values of ConfigService: the environment, validated with the schema, and the namespaces
+// Variables set in the process take precedence over .env files, which are copied to process.env when unset
+async function loadConfig(options: ConfigModuleOptions): Promise<Record<string, any>> {
+  const defaultPaths = [".env", ".env.local", ...(process.env.NODE_ENV ? [`.env.${process.env.NODE_ENV}`] : [])];
+  const fileEnv = options.ignoreEnvFile ? {} : loadEnvFiles(([] as string[]).concat(options.envFilePath ?? defaultPaths));
+  Object.entries(fileEnv).forEach(([key, value]) => process.env[key] === undefined && (process.env[key] = value));
+
+  let config: Record<string, any> = { ...fileEnv, ...process.env };
+  if (options.schema) {
+    const result = options.schema.safeParse(config);
+    if (!result.success) {
+      throw new ConfigValidationError(result.error.issues.map((issue) => ({ key: issue.path.join(".") || "(root)", message: issue.message })));
+    }
+    config = result.data;
+  }
+
+  for (const factory of options.load || []) {
+    config[factory.namespace] = await factory();
+  }
+  return config;
+}
+
+// ConfigModule
+// ConfigModule.forRoot loads and validates the config once, when the module is registered,
+// so that a misconfigured application fails at startup
+@Module({})
+class ConfigModule {
+  static forRoot<S extends z.ZodTypeAny>(options: ConfigModuleOptions<S> = {}): DynamicModule {
+    const load = options.load || [];
+    return {
+      module: ConfigModule,
+      global: options.isGlobal,
+      providers: [
+        { provide: ConfigService, useFactory: async () => new ConfigService(await loadConfig(options)) },
+        ...load.map((factory) => ({ provide: factory.KEY, useFactory: (config: ConfigService) => config.get(factory.namespace), inject: [ConfigService] })),
+      ],
+      exports: [ConfigService, ...load.map((factory) => factory.KEY)],
+    };
+  }
+}
+
+export {
+  registerAs,
+  ConfigValidationError,
+  ConfigService,
+  ConfigModule,
+};
+
+export type {
+  ConfigFactory,
+  ConfigType,
+  ConfigModuleOptions,
+};
@@ -0,0 +1,2966 @@
+import "reflect-metadata";
+import express from "express";
+import { IncomingMessage, ServerResponse, createServer, type IncomingHttpHeaders, type Server } from "http";
+import { Readable } from "stream";
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash } from "crypto";
+import { Container as InversifyContainer, injectable as inverseInjectable, inject as inverseInject, optional as inverseOptional, decorate } from "inversify";
+import type { interfaces } from "inversify";
+import { z } from "zod";
+import { parse as parseQuery, type ParsedQs } from "qs";
+import type { WsClient } from "./websockets";
+
+type ParamsDictionary = { [key: string]: string };
+type RequestHandler<P extends ParamsDictionary = ParamsDictionary, ResBody = any, ReqBody = any, ReqQuery = ParsedQs> = (
+  req: express.Request<P, ResBody, ReqBody, ReqQuery>,
+  res: express.Response<ResBody>,
+  next: express.NextFunction
+) => void | Promise<void>;
+
+interface RouteMetadata {
+  method: keyof Pick<express.Application, "get" | "post" | "put" | "delete" | "patch">;
+  path: string;
+  handlerName: string;
+}
+
+// ResponseMetadata
+// How the result of a route is sent, from the response decorators
+interface ResponseMetadata {
+  httpCode?: number;
+  headers: [string, string][];
+  redirect?: { url: string; statusCode: number };
+  render?: string;
+  sse?: { heartbeat: number };
+  handledByHandler: boolean;
+}
+
+// RouteDefinition
+// A route registered by the framework, kept for introspection (e.g. OpenAPI generation)
+interface RouteDefinition {
+  controller: Constructor;
+  handlerName: string;
+  method: RouteMetadata["method"];
+  path: string;
+  params: ParamMetadata[];
+  host?: string;
+  // versions: From @Version or the controller options, routes without them serve the default version
+  versions?: VersionValue[];
+}
+
+// RouteInfo
+// A route of the route table, in the order express matches them
+// versions: The versions the route serves, only set when versioning is enabled
+interface RouteInfo {
+  method: Uppercase<RouteMetadata["method"]>;
+  path: string;
+  controller: Constructor;
+  handlerName: string;
+  host?: string;
+  versions?: VersionValue[];
+}
+
+interface ModuleMetadata {
+  controllers?: Constructor[];
+  // gateways: @WebSocketGateway classes, attached to the server created by listen
+  gateways?: Constructor[];
+  providers?: Provider<any>[];
+  imports?: ModuleImport[];
+  // exports: Provider tokens (or imported modules, to re-export them) visible to modules importing this one
+  exports?: (Token | DynamicModule)[];
+}
+
+// Dynamic module
+// Returned by static methods such as forRoot/forFeature to configure a module with options
+// Its metadata is merged with the @Module metadata of `module`
+interface DynamicModule extends ModuleMetadata {
+  module: Constructor;
+  global?: boolean;
+}
+
+// ModuleImport
+// forwardRef(() => Module) lets two modules import each other, both imports must use it
+type ModuleImport = Constructor | DynamicModule | Promise<DynamicModule> | ForwardReference<Constructor | DynamicModule>;
+
+// ModuleInstance
+// A registered module with its own injector scope
+interface ModuleInstance {
+  metatype: Constructor;
+  container: Container;
+  providers: Set<Token>;
+  controllers: Constructor[];
+  gateways: Constructor[];
+  exports: Set<Token>;
+  global: boolean;
+}
+
+type Constructor<T = any> = new (...args: any[]) => T;
+
+// Scope types
+// Singleton: A single instance of the service is created and shared across all consumers
+// Transient: A new instance of the service is created for each consumer
+// Request: A new instance of the service is created for each incoming request
+type Scope = "Singleton" | "Transient" | "Request";
+
+type Token<T = any> = Constructor<T> | string | symbol;
+
+// Override provider types
+// Used by the testing module to replace a provider, a guard, a filter, a pipe or an interceptor
+type OverrideProvider<T = any> =
+  | { useClass: Constructor<T> }
+  | { useValue: T }
+  | { useFactory: { factory: (...args: any[]) => T | Promise<T>; inject?: Token[] } };
+
+// Provider types
+// Constructor: A class constructor
+// useClass: A class constructor to be used for creating instances
+// useFactory: A factory function, possibly async, called with the resolved `inject` tokens
+// useValue: A value to be used as is
+// useExisting: An alias for another token
+type Provider<T> =
+  | Constructor<T>
+  | { provide: Token<T>; useClass: Constructor<T>; scope?: Scope }
+  | { provide: Token<T>; useFactory: (...args: any[]) => T | Promise<T>; inject?: Token[]; scope?: Scope }
+  | { provide: Token<T>; useValue: T }
+  | { provide: Token<T>; useExisting: Token<T> };
+
+// Custom HTTP exception class
+// response: The JSON body sent to the client, defaults to { statusCode, message }
+// cause: The underlying error, kept for logging
+interface HttpExceptionOptions {
+  response?: Record<string, unknown>;
+  cause?: unknown;
+}
+
+class HttpException extends Error {
+  private response?: Record<string, unknown>;
+
+  constructor(public status: number, public message: string, options: HttpExceptionOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = new.target.name;
+    this.response = options.response;
+  }
+
+  getStatus(): number {
+    return this.status;
+  }
+
+  getResponse(): Record<string, unknown> {
+    return this.response ?? { statusCode: this.status, message: this.message };
+  }
+}
+
+// Built-in HTTP exceptions
+// The message defaults to the standard reason phrase of the status
+class BadRequestException extends HttpException {
+  constructor(message = "Bad Request", options?: HttpExceptionOptions) {
+    super(400, message, options);
+  }
+}
+
+class UnauthorizedException extends HttpException {
+  constructor(message = "Unauthorized", options?: HttpExceptionOptions) {
+    super(401, message, options);
+  }
+}
+
+class ForbiddenException extends HttpException {
+  constructor(message = "Forbidden", options?: HttpExceptionOptions) {
+    super(403, message, options);
+  }
+}
+
+class NotFoundException extends HttpException {
+  constructor(message = "Not Found", options?: HttpExceptionOptions) {
+    super(404, message, options);
+  }
+}
+
+class MethodNotAllowedException extends HttpException {
+  constructor(message = "Method Not Allowed", options?: HttpExceptionOptions) {
+    super(405, message, options);
+  }
+}
+
+class NotAcceptableException extends HttpException {
+  constructor(message = "Not Acceptable", options?: HttpExceptionOptions) {
+    super(406, message, options);
+  }
+}
+
+class RequestTimeoutException extends HttpException {
+  constructor(message = "Request Timeout", options?: HttpExceptionOptions) {
+    super(408, message, options);
+  }
+}
+
+class ConflictException extends HttpException {
+  constructor(message = "Conflict", options?: HttpExceptionOptions) {
+    super(409, message, options);
+  }
+}
+
+class GoneException extends HttpException {
+  constructor(message = "Gone", options?: HttpExceptionOptions) {
+    super(410, message, options);
+  }
+}
+
+class PayloadTooLargeException extends HttpException {
+  constructor(message = "Payload Too Large", options?: HttpExceptionOptions) {
+    super(413, message, options);
+  }
+}
+
+class UnsupportedMediaTypeException extends HttpException {
+  constructor(message = "Unsupported Media Type", options?: HttpExceptionOptions) {
+    super(415, message, options);
+  }
+}
+
+class UnprocessableEntityException extends HttpException {
+  constructor(message = "Unprocessable Entity", options?: HttpExceptionOptions) {
+    super(422, message, options);
+  }
+}
+
+class TooManyRequestsException extends HttpException {
+  constructor(message = "Too Many Requests", options?: HttpExceptionOptions) {
+    super(429, message, options);
+  }
+}
+
+class InternalServerErrorException extends HttpException {
+  constructor(message = "Internal Server Error", options?: HttpExceptionOptions) {
+    super(500, message, options);
+  }
+}
+
+class NotImplementedException extends HttpException {
+  constructor(message = "Not Implemented", options?: HttpExceptionOptions) {
+    super(501, message, options);
+  }
+}
+
+class BadGatewayException extends HttpException {
+  constructor(message = "Bad Gateway", options?: HttpExceptionOptions) {
+    super(502, message, options);
+  }
+}
+
+class ServiceUnavailableException extends HttpException {
+  constructor(message = "Service Unavailable", options?: HttpExceptionOptions) {
+    super(503, message, options);
+  }
+}
+
+class GatewayTimeoutException extends HttpException {
+  constructor(message = "Gateway Timeout", options?: HttpExceptionOptions) {
+    super(504, message, options);
+  }
+}
+
+// Validation exception
+// Thrown by pipes when an argument is invalid, rendered as a structured 400 response
+interface ValidationErrorDetail {
+  location: ParamMetadata["type"];
+  field?: string;
+  path: (string | number)[];
+  message: string;
+}
+
+class ValidationException extends BadRequestException {
+  constructor(public errors: ValidationErrorDetail[], message = "Validation failed") {
+    super(message);
+  }
+
+  getResponse(): Record<string, unknown> {
+    return { statusCode: this.status, message: this.message, errors: this.errors };
+  }
+}
+
+// Exception Filter interface
+// A filter handles an exception by sending a response, when it does not the next filter is tried
+interface ExceptionFilter {
+  catch(exception: Error, context: ExecutionContext): void | Promise<void>;
+}
+
+// Catch decorator
+// Used to limit an exception filter to some exception types, by default it catches everything
+function Catch(...exceptions: Constructor<Error>[]): ClassDecorator {
+  return (target: Function): void => {
+    Reflect.defineMetadata("catch", exceptions, target);
+  };
+}
+
+// Global enhancer tokens
+// Providers registered with these tokens are applied to every route, with their dependencies injected
+// e.g. { provide: APP_GUARD, useClass: AuthGuard }
+const APP_GUARD = Symbol("APP_GUARD");
+const APP_FILTER = Symbol("APP_FILTER");
+const APP_PIPE = Symbol("APP_PIPE");
+const APP_INTERCEPTOR = Symbol("APP_INTERCEPTOR");
+const GLOBAL_ENHANCERS = [APP_GUARD, APP_FILTER, APP_PIPE, APP_INTERCEPTOR];
+
+// Guard interface
+// Returning false rejects the request with a ForbiddenException, throw to reject it with another exception
+interface CanActivate {
+  canActivate(context: ExecutionContext): boolean | Promise<boolean>;
+}
+
+// Lifecycle hook interfaces
+// Implemented by providers and controllers, async hooks are awaited
+// OnModuleInit: Called once the modules are registered, in dependency order
+// OnApplicationBootstrap: Called after every onModuleInit hook, before the server listens
+// BeforeApplicationShutdown: Called on close, after in-flight requests are drained
+// OnModuleDestroy: Called last on close, in reverse dependency order
+// OnRequestDispose: Called on request-scoped instances once the response is finished
+interface OnModuleInit {
+  onModuleInit(): any;
+}
+
+interface OnApplicationBootstrap {
+  onApplicationBootstrap(): any;
+}
+
+interface BeforeApplicationShutdown {
+  beforeApplicationShutdown(signal?: string): any;
+}
+
+interface OnModuleDestroy {
+  onModuleDestroy(): any;
+}
+
+interface OnRequestDispose {
+  onRequestDispose(): any;
+}
+
+interface ShutdownHooksOptions {
+  // timeout: Milliseconds to wait for in-flight requests before closing their connections
+  timeout?: number;
+}
+
+// Decorators
+// UseFilters: Decorator to apply exception filters to a route or controller
+function UseFilters(...filters: (Constructor<ExceptionFilter> | ExceptionFilter)[]): MethodDecorator & ClassDecorator {
+  return (target: Object | Function, propertyKey?: string | symbol, descriptor?: PropertyDescriptor): void => {
+    if (propertyKey) {
+      // This is a method decorator
+      Reflect.defineMetadata("filters", filters, target, propertyKey);
+    } else {
+      // This is a class decorator
+      Reflect.defineMetadata("filters", filters, target);
+    }
+  };
+}
+// UseGuards: Decorator to apply guards to a route or controller
+function UseGuards(...guards: (Constructor<CanActivate> | CanActivate)[]): MethodDecorator & ClassDecorator {
+  return (target: Object | Function, propertyKey?: string | symbol, descriptor?: PropertyDescriptor): void => {
+    if (propertyKey) {
+      // This is a method decorator
+      Reflect.defineMetadata("guards", guards, target, propertyKey);
+    } else {
+      // This is a class decorator
+      Reflect.defineMetadata("guards", guards, target);
+    }
+  };
+}
+
+// Module decorator
+// Used to define a module with controllers, providers, and imported modules
+function Module(options: ModuleMetadata): ClassDecorator {
+  return (target: Function): void => {
+    Reflect.defineMetadata("module", options, target);
+  };
+}
+
+// Global decorator
+// Used to make the exports of a module visible to every module without importing it
+function Global(): ClassDecorator {
+  return (target: Function): void => {
+    Reflect.defineMetadata("global", true, target);
+  };
+}
+
+function isDynamicModule(module: unknown): module is DynamicModule {
+  return typeof module === "object" && module !== null && "module" in module;
+}
+
+// Controller decorator
+// Used to define a controller with a prefix
+// The prefix is used to define the base path for all routes in the controller
+// host: Only handle requests for this host, e.g. ":account.example.com" (read with @HostParam)
+// version: The versions served by the routes of the controller, see @Version
+interface ControllerOptions {
+  path?: string;
+  host?: string;
+  version?: VersionValue | VersionValue[];
+}
+
+function Controller(prefixOrOptions: string | ControllerOptions = ""): ClassDecorator {
+  const options = typeof prefixOrOptions === "string" ? { path: prefixOrOptions } : prefixOrOptions;
+  return (target: any) => {
+    Reflect.defineMetadata("prefix", options.path || "", target);
+    if (options.host) {
+      Reflect.defineMetadata("host", options.host, target);
+    }
+    if (options.version) {
+      Reflect.defineMetadata("version", ([] as VersionValue[]).concat(options.version), target);
+    }
+  };
+}
+
+// Versioning
+// VERSION_NEUTRAL: Marks a route as served whatever the requested version, or without one
+// uri: The version is the first segment of the path, e.g. /v1/users (prefix: "v")
+// header: The version is read from a request header (header: "X-API-Version")
+// media-type: The version is a parameter of the Accept header, e.g. application/json;v=1 (key: "v=")
+// defaultVersion: The version of the routes without @Version
+const VERSION_NEUTRAL = Symbol("VERSION_NEUTRAL");
+
+type VersionValue = string | typeof VERSION_NEUTRAL;
+
+interface VersioningOptions {
+  type: "uri" | "header" | "media-type";
+  defaultVersion?: VersionValue | VersionValue[];
+  prefix?: string;
+  header?: string;
+  key?: string;
+}
+
+// Version decorator
+// Used to set the versions served by a controller or a route, the route version takes precedence
+function Version(...versions: VersionValue[]): MethodDecorator & ClassDecorator {
+  return (target: any, key?: string | symbol) => {
+    if (key) {
+      Reflect.defineMetadata("version", versions, target, key);
+    } else {
+      Reflect.defineMetadata("version", versions, target);
+    }
+  };
+}
+
+// compileHostPattern function
+// Used to turn a host pattern such as ":account.example.com" into a regular expression with named groups
+function compileHostPattern(host: string): RegExp {
+  const source = host
+    .split(".")
+    .map((part) => (part.startsWith(":") ? `(?<${part.slice(1)}>[^.]+)` : part.replace(/[-/\\^$*+?()|[\]{}]/g, "\\$&")))
+    .join("\\.");
+  return new RegExp(`^${source}$`, "i");
+}
+
+// compileRoutePattern function
+// Used to turn a route path such as "/users/:id" or "/files/*" into a regular expression capturing its parameters,
+// to match requests with NodeHttpAdapter and to find the routes registered after it that it matches first
+function compileRoutePattern(path: string): RegExp {
+  let source = "";
+  for (const [token, constraint, optional] of path.matchAll(/:\w+(\((?:\\.|[^\\()])+\))?(\?)?|\*|[^:*]+/g)) {
+    if (token === "*") {
+      source += "(.*)";
+    } else if (!token.startsWith(":")) {
+      source += token.replace(/[-\\^$*+?.()|[\]{}]/g, "\\$&");
+    } else if (optional && source.endsWith("/")) {
+      // An optional parameter makes the slash before it optional too
+      source = `${source.slice(0, -1)}(?:/${constraint || "([^/]+)"})?`;
+    } else {
+      source += `${constraint || "([^/]+)"}${optional ? "?" : ""}`;
+    }
+  }
+  // A trailing slash is optional, as in express' non-strict routing
+  return new RegExp(`^${source.replace(/\/$/, "")}/?$`, "i");
+}
+
+// getRouteKeys function
+// Used to name the groups captured by compileRoutePattern: parameter names, and 0, 1... for each * as express does
+function getRouteKeys(path: string): string[] {
+  let wildcards = 0;
+  return [...path.matchAll(/:(\w+)(?:\((?:\\.|[^\\()])+\))?\??|\*/g)].map(([token, name]) => (token === "*" ? String(wildcards++) : name));
+}
+
+// normalizeRoutePath function
+// Used to compare route paths regardless of parameter names, case and trailing slash
+function normalizeRoutePath(path: string): string {
+  return path.replace(/:\w+/g, ":").replace(/\/$/, "").toLowerCase() || "/";
+}
+
+// getMethodNames function
+// Used to list the methods of a class prototype, including the ones inherited from its base classes
+function getMethodNames(prototype: any): string[] {
+  const names = new Set<string>();
+  for (let current = prototype; current && current !== Object.prototype; current = Object.getPrototypeOf(current)) {
+    Object.getOwnPropertyNames(current)
+      .filter((prop) => prop !== "constructor" && typeof Object.getOwnPropertyDescriptor(current, prop)?.value === "function")
+      .forEach((prop) => names.add(prop));
+  }
+  return [...names];
+}
+
+// getMetadataRecord function
+// Used to read every metadata set by decorators on a class or a method, without the design:* metadata of TypeScript
+function getMetadataRecord(target: Object, propertyKey?: string | symbol): Record<string | symbol, unknown> {
+  const keys: (string | symbol)[] = propertyKey === undefined ? Reflect.getMetadataKeys(target) : Reflect.getMetadataKeys(target, propertyKey);
+  const record: Record<string | symbol, unknown> = {};
+  for (const key of keys.filter((key) => typeof key !== "string" || !key.startsWith("design:"))) {
+    record[key] = propertyKey === undefined ? Reflect.getMetadata(key, target) : Reflect.getMetadata(key, target, propertyKey);
+  }
+  return record;
+}
+
+// Method decorators
+// Used to define routes with specific HTTP methods
+function createMethodDecorator(method: string) {
+  return (path?: string): MethodDecorator => {
+    return (target: Object, propertyKey: string | symbol, descriptor: TypedPropertyDescriptor<any>): TypedPropertyDescriptor<any> | void => {
+      Reflect.defineMetadata("path", path, target, propertyKey);
+      Reflect.defineMetadata("method", method, target, propertyKey);
+      return descriptor;
+    };
+  };
+}
+
+const Get = createMethodDecorator("get");
+const Post = createMethodDecorator("post");
+const Put = createMethodDecorator("put");
+const Delete = createMethodDecorator("delete");
+const Patch = createMethodDecorator("patch");
+
+// Response decorators
+// HttpCode: Sets the status code of successful responses, e.g. 201 for a POST or 204 for a DELETE
+function HttpCode(statusCode: number): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol, descriptor: PropertyDescriptor): void => {
+    Reflect.defineMetadata("httpCode", statusCode, target, propertyKey);
+  };
+}
+
+// Header: Sets a response header, can be used several times
+function Header(name: string, value: string): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol, descriptor: PropertyDescriptor): void => {
+    const headers: [string, string][] = Reflect.getMetadata("headers", target, propertyKey) || [];
+    Reflect.defineMetadata("headers", [...headers, [name, value]], target, propertyKey);
+  };
+}
+
+// Redirect: Redirects to a URL, the handler can return { url, statusCode } to override it
+function Redirect(url = "", statusCode = 302): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol, descriptor: PropertyDescriptor): void => {
+    Reflect.defineMetadata("redirect", { url, statusCode }, target, propertyKey);
+  };
+}
+
+// Render: Renders a view of the Express view engine, with the handler result as locals
+function Render(view: string): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol, descriptor: PropertyDescriptor): void => {
+    Reflect.defineMetadata("render", view, target, propertyKey);
+  };
+}
+
+// Serialize options
+// property: The property of a wrapper holding the value to serialize, e.g. "items" for { items, total, page },
+// the other properties of the wrapper are sent as is
+interface SerializeOptions {
+  property?: string;
+}
+
+// SerializationGroups
+// A schema per group, e.g. { admin: AdminUserSchema, default: PublicUserSchema }, the groups of a request are chosen
+// with MiniFramework.useSerializationGroups, the "default" schema is used when none of them has a schema
+type SerializationGroups = Record<string, z.ZodTypeAny>;
+
+interface SerializeMetadata extends SerializeOptions {
+  schemas: z.ZodTypeAny | SerializationGroups;
+}
+
+// Serialize decorator
+// Used to parse the results of a route or controller through an output Zod schema, to strip internal properties
+// (unknown keys of z.object are removed) and transform the others before they are sent
+// Arrays are serialized item by item unless the schema is an array schema, streams and @Res() responses are not serialized
+// A result that does not match the schema is logged and answered with a 500, it is never sent as is
+function Serialize(schemas: z.ZodTypeAny | SerializationGroups, options: SerializeOptions = {}): MethodDecorator & ClassDecorator {
+  return createDecorator("serialize", { schemas, ...options } satisfies SerializeMetadata) as MethodDecorator & ClassDecorator;
+}
+
+// ResponseSchema decorator
+// Alias of Serialize
+const ResponseSchema = Serialize;
+
+// StreamableFile class
+// Returned by a handler to stream a file, with its content type, disposition and length headers
+interface StreamableFileOptions {
+  type?: string;
+  disposition?: string;
+  length?: number;
+}
+
+class StreamableFile {
+  constructor(private data: Readable | Uint8Array, readonly options: StreamableFileOptions = {}) {}
+
+  getStream(): Readable {
+    return this.data instanceof Readable ? this.data : Readable.from([this.data]);
+  }
+
+  getHeaders(): Record<string, string> {
+    const length = this.options.length ?? (this.data instanceof Readable ? undefined : this.data.byteLength);
+    return {
+      "Content-Type": this.options.type || "application/octet-stream",
+      ...(this.options.disposition && { "Content-Disposition": this.options.disposition }),
+      ...(length !== undefined && { "Content-Length": String(length) }),
+    };
+  }
+}
+
+// Param decorators
+// Used to define parameters for routes
+interface ParamMetadata {
+  index: number;
+  type: "param" | "body" | "query" | "headers" | "req" | "res" | "ip" | "host" | "session" | "cookies" | "message" | "socket" | "custom";
+  data?: any;
+  passthrough?: boolean;
+  pipes?: Pipe[];
+  factory?: (data: any, context: ExecutionContext) => any;
+}
+
+type ParamType = ParamMetadata["type"];
+
+// Arguments run through the global, class and method pipes, the others only go through the pipes given to their decorator
+const PIPED_PARAM_TYPES = new Set<ParamType>(["body", "query", "param", "message", "custom"]);
+
+function addParamMetadata(target: Object, propertyKey: string | symbol | undefined, metadata: ParamMetadata): void {
+  const existingParams: ParamMetadata[] = Reflect.getMetadata("params", target, propertyKey as string | symbol) || [];
+  existingParams.push(metadata);
+  Reflect.defineMetadata("params", existingParams, target, propertyKey as string | symbol);
+}
+
+// isPipe function
+// Used to tell pipes from decorator data, e.g. @CurrentUser(ParseIntPipe) from @CurrentUser("id")
+// Only Zod schemas, PipeTransform instances and classes count, a plain function is data (e.g. a callback for the factory)
+function isPipe(value: unknown): value is Pipe {
+  if (value instanceof z.ZodType) {
+    return true;
+  }
+  if (typeof value === "function") {
+    return typeof value.prototype?.transform === "function";
+  }
+  return typeof value === "object" && value !== null && typeof (value as PipeTransform).transform === "function";
+}
+
+// createRouteParamDecorator function
+// Used to create the built-in param decorators, which take an optional key and pipes
+// Without a key the whole object is injected, e.g. @Query() for every query parameter
+function createRouteParamDecorator(type: ParamType) {
+  return (keyOrPipe?: string | Pipe, ...pipes: Pipe[]): ParameterDecorator => {
+    return (target: Object, propertyKey: string | symbol | undefined, parameterIndex: number): void => {
+      const data = typeof keyOrPipe === "string" ? keyOrPipe : undefined;
+      const allPipes = keyOrPipe !== undefined && typeof keyOrPipe !== "string" ? [keyOrPipe, ...pipes] : pipes;
+      addParamMetadata(target, propertyKey, { index: parameterIndex, type, ...(data && { data }), ...(allPipes.length && { pipes: allPipes }) });
+    };
+  };
+}
+
+// Param: Decorator to inject a route parameter, or all of them
+// Pipes passed after the name are run on the value before it reaches the handler
+const Param = createRouteParamDecorator("param");
+
+// Body: Decorator to inject the request body, or one of its properties
+// Pipes (or Zod schemas) passed to it validate and transform the body
+const Body = createRouteParamDecorator("body");
+
+// Query: Decorator to inject a query parameter, or all of them
+const Query = createRouteParamDecorator("query");
+
+// Headers: Decorator to inject a request header, or all of them
+const Headers = createRouteParamDecorator("headers");
+
+// Cookies: Decorator to inject a cookie, or all of them
+// Uses req.cookies when cookie-parser is installed, otherwise parses the Cookie header
+const Cookies = createRouteParamDecorator("cookies");
+
+// HostParam: Decorator to inject a parameter of the controller host pattern, or all of them
+const HostParam = createRouteParamDecorator("host");
+
+// Req: Decorator to inject the request
+function Req(): ParameterDecorator {
+  return (target: Object, propertyKey: string | symbol | undefined, parameterIndex: number): void => {
+    addParamMetadata(target, propertyKey, { index: parameterIndex, type: "req" });
+  };
+}
+
+// Ip: Decorator to inject the client IP address (req.ip, which honours the "trust proxy" setting)
+function Ip(): ParameterDecorator {
+  return (target: Object, propertyKey: string | symbol | undefined, parameterIndex: number): void => {
+    addParamMetadata(target, propertyKey, { index: parameterIndex, type: "ip" });
+  };
+}
+
+// Session: Decorator to inject req.session, set by a session middleware such as express-session
+function Session(): ParameterDecorator {
+  return (target: Object, propertyKey: string | symbol | undefined, parameterIndex: number): void => {
+    addParamMetadata(target, propertyKey, { index: parameterIndex, type: "session" });
+  };
+}
+
+// createParamDecorator function
+// Used to create custom param decorators from a factory receiving the decorator data and the execution context
+// The decorator takes optional data followed by pipes, or only pipes
+// e.g. const CurrentUser = createParamDecorator((data: string | undefined, ctx) => ctx.getRequest().user)
+function createParamDecorator<TData = any, TValue = any>(factory: (data: TData, context: ExecutionContext) => TValue) {
+  return (dataOrPipe?: TData | Pipe, ...pipes: Pipe[]): ParameterDecorator => {
+    return (target: Object, propertyKey: string | symbol | undefined, parameterIndex: number): void => {
+      const hasData = dataOrPipe !== undefined && !isPipe(dataOrPipe);
+      const allPipes = dataOrPipe !== undefined && !hasData ? [dataOrPipe as Pipe, ...pipes] : pipes;
+      addParamMetadata(target, propertyKey, {
+        index: parameterIndex,
+        type: "custom",
+        factory,
+        ...(hasData && { data: dataOrPipe }),
+        ...(allPipes.length && { pipes: allPipes }),
+      });
+    };
+  };
+}
+
+// parseCookies function
+// Used to read cookies from the Cookie header when no cookie parser middleware ran
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const pair of (header || "").split(";")) {
+    const index = pair.indexOf("=");
+    if (index > 0) {
+      const name = pair.slice(0, index).trim();
+      const value = pair.slice(index + 1).trim().replace(/^"(.*)"$/, "$1");
+      try {
+        cookies[name] ??= decodeURIComponent(value);
+      } catch {
+        cookies[name] ??= value;
+      }
+    }
+  }
+  return cookies;
+}
+
+// Res: Decorator to inject the response
+// The handler is then in charge of sending the response, unless passthrough is set
+// passthrough: The handler only sets headers, cookies or the status, the framework sends the result
+function Res(options: { passthrough?: boolean } = {}): ParameterDecorator {
+  return (target: Object, propertyKey: string | symbol | undefined, parameterIndex: number): void => {
+    addParamMetadata(target, propertyKey, { index: parameterIndex, type: "res", passthrough: !!options.passthrough });
+  };
+}
+
+// Prototype and property key of the methods decorated or given to an execution context
+// Lets Reflector read the metadata that decorators store on (prototype, key), e.g. httpCode or message, from the method
+const handlerLocations = new WeakMap<Function, { prototype: object; key: string | symbol }>();
+
+// Custom decorator creator
+// Used to create custom decorators with metadata
+// The metadata key and value are used to store the metadata
+function createDecorator(metadataKey: string, metadataValue: any): Function {
+  return function (target: any, key?: string | symbol, descriptor?: PropertyDescriptor | number) {
+    if (descriptor === undefined) {
+      // Class decorator
+      Reflect.defineMetadata(metadataKey, metadataValue, target);
+    } else if (typeof descriptor === "number") {
+      // Parameter decorator
+      const existingParameters = Reflect.getOwnMetadata(metadataKey, target, key!) || [];
+      existingParameters.push({ index: descriptor, value: metadataValue });
+      Reflect.defineMetadata(metadataKey, existingParameters, target, key!);
+    } else {
+      // Method decorator
+      Reflect.defineMetadata(metadataKey, metadataValue, target, key!);
+      // Accessors have no function to locate, their descriptor holds a getter and a setter
+      if (typeof descriptor.value === "function") {
+        handlerLocations.set(descriptor.value, { prototype: target, key: key! });
+      }
+    }
+  };
+}
+
+// Injectable decorator
+// Used to define a service as injectable with a specific scope
+// The scope determines how the service is created and shared
+function Injectable(scope: Scope = "Singleton"): ClassDecorator {
+  return (target: any) => {
+    decorate(inverseInjectable(), target);
+    Reflect.defineMetadata("scope", scope, target);
+  };
+}
+
+interface InjectionMetadata {
+  index: number;
+  token: Token | ForwardReference<Token>;
+}
+
+// Property injection metadata
+// The properties of a class set once an instance is created, stored on the class by @Inject
+interface PropertyInjectionMetadata {
+  property: string | symbol;
+  token: Token | ForwardReference<Token>;
+}
+
+// ForwardReference
+// A token or module read when it is used rather than when it is declared, created with forwardRef
+interface ForwardReference<T = any> {
+  forwardRef: () => T;
+}
+
+// forwardRef function
+// Used to refer to a class that is not defined yet, e.g. two modules importing each other,
+// or two providers injecting each other with @Inject(forwardRef(() => OtherService))
+function forwardRef<T>(fn: () => T): ForwardReference<T> {
+  return { forwardRef: fn };
+}
+
+function isForwardReference(value: unknown): value is ForwardReference {
+  return typeof value === "object" && value !== null && typeof (value as ForwardReference).forwardRef === "function";
+}
+
+// Forward reference tokens
+// Each @Inject(forwardRef(...)) parameter is injected through a token of its own, bound by the container
+// of the provider to a proxy of the dependency
+const forwardTokens = new WeakMap<ForwardReference, symbol>();
+
+function getForwardToken(reference: ForwardReference): symbol {
+  if (!forwardTokens.has(reference)) {
+    forwardTokens.set(reference, Symbol("forwardRef"));
+  }
+  return forwardTokens.get(reference)!;
+}
+
+// createForwardProxy function
+// Used to inject a forwardRef dependency, it is resolved on first use so that two providers can depend on each other
+// The dependency cannot be used in the constructor, it may not be created yet
+function createForwardProxy(token: Token, resolve: () => any): any {
+  return new Proxy(typeof token === "function" ? Object.create(token.prototype) : {}, {
+    get: (_, property) => {
+      // Checked by inversify to tell promises apart, it must not resolve the dependency while it is being created
+      if (property === "then") {
+        return undefined;
+      }
+      const instance = resolve();
+      const value = Reflect.get(instance, property, instance);
+      return typeof value === "function" ? value.bind(instance) : value;
+    },
+    set: (_, property, value) => Reflect.set(resolve(), property, value),
+    has: (_, property) => property in resolve(),
+  });
+}
+
+// Inject decorator
+// Used to inject dependencies into a service, through a constructor parameter or a property
+// The token can be a class constructor, or a forward reference to one
+function Inject(token: Token | ForwardReference<Token>): ParameterDecorator & PropertyDecorator {
+  return (target: Object, propertyKey: string | symbol | undefined, parameterIndex?: number) => {
+    const injected = isForwardReference(token) ? getForwardToken(token) : token;
+    if (parameterIndex === undefined) {
+      // Property decorator, the property is set once the instance is created
+      inverseInject(injected)(target, propertyKey);
+      const properties: PropertyInjectionMetadata[] = Reflect.getMetadata("properties", target.constructor) || [];
+      Reflect.defineMetadata("properties", [...properties, { property: propertyKey!, token }], target.constructor);
+      return;
+    }
+    decorate(inverseInject(injected), target, parameterIndex);
+    const existingInjections: InjectionMetadata[] = Reflect.getMetadata("injections", target, propertyKey as string | symbol) || [];
+
+    existingInjections.push({
+      index: parameterIndex,
+      token,
+    });
+
+    Reflect.defineMetadata("injections", existingInjections, target, propertyKey as string | symbol);
+  };
+}
+
+// Optional decorator
+// Used to inject undefined when a dependency is not provided, instead of failing at startup
+// On a property, the property is left unset
+function Optional(): ParameterDecorator & PropertyDecorator {
+  return (target: Object, propertyKey: string | symbol | undefined, parameterIndex?: number) => {
+    if (parameterIndex === undefined) {
+      // Property decorator
+      inverseOptional()(target, propertyKey);
+      Reflect.defineMetadata("optional", true, target, propertyKey!);
+      return;
+    }
+    if (propertyKey === undefined) {
+      // Constructor parameter, the parameters of a method are not injected by inversify
+      decorate(inverseOptional(), target, parameterIndex);
+    }
+    const optional: number[] = Reflect.getMetadata("optional", target, propertyKey as string | symbol) || [];
+    Reflect.defineMetadata("optional", [...optional, parameterIndex], target, propertyKey as string | symbol);
+  };
+}
+
+// UseMiddleware decorator
+// Used to apply middleware to a route or controller
+const UseMiddleware = (middleware: RequestHandler): MethodDecorator & ClassDecorator => {
+  return (target: any, key?: string | symbol, descriptor?: PropertyDescriptor) => {
+    if (key) {
+      // Method decorator
+      const middlewares = Reflect.getMetadata("middlewares", target, key) || [];
+      middlewares.push(middleware);
+      Reflect.defineMetadata("middlewares", middlewares, target, key);
+    } else {
+      // Class decorator
+      const middlewares = Reflect.getMetadata("middlewares", target) || [];
+      middlewares.push(middleware);
+      Reflect.defineMetadata("middlewares", middlewares, target);
+    }
+  };
+};
+
+// Pipe types
+// PipeFunction: A plain function that transforms the value
+// PipeTransform: A class (resolved from the container) or instance with a transform method
+// ZodTypeAny: A Zod schema, the value is parsed against it
+type PipeFunction = (value: unknown) => unknown;
+
+interface ArgumentMetadata {
+  type: ParamMetadata["type"];
+  data?: any;
+  metatype?: Function;
+}
+
+interface PipeTransform<T = any, R = any> {
+  transform(value: T, metadata: ArgumentMetadata, context?: ExecutionContext): R | Promise<R>;
+}
+
+type Pipe = PipeFunction | PipeTransform | Constructor<PipeTransform> | z.ZodTypeAny;
+
+// UsePipes decorator
+// Used to apply input pipes to a route or controller
+// The pipes run on every handler argument before the handler is called
+function UsePipes(...pipes: Pipe[]): MethodDecorator & ClassDecorator {
+  return (target: Object | Function, propertyKey?: string | symbol, descriptor?: PropertyDescriptor): void => {
+    if (propertyKey) {
+      // This is a method decorator
+      Reflect.defineMetadata("pipes", pipes, target, propertyKey);
+    } else {
+      // This is a class decorator
+      Reflect.defineMetadata("pipes", pipes, target);
+    }
+  };
+}
+
+// Execution context
+// Describes the route being handled: the controller class, the handler and the request/response
+// Given to guards, interceptors, exception filters and pipes
+// In a gateway, getType() is "ws", getRequest() returns the HTTP request the client upgraded and getResponse() the client
+interface ExecutionContext {
+  getType(): "http" | "ws";
+  getClass<T = any>(): Constructor<T>;
+  getHandler(): Function;
+  // getRequest and getResponse: The objects of the HTTP adapter, express ones by default
+  getRequest<T = express.Request>(): T;
+  getResponse<T = express.Response>(): T;
+  // switchToWs: The client and the message data of a gateway handler, throws outside of a gateway
+  switchToWs(): WsArgumentsHost;
+}
+
+interface WsArgumentsHost {
+  getClient<T = WsClient>(): T;
+  getData<T = any>(): T;
+}
+
+class ExecutionContextHost implements ExecutionContext {
+  // req: The request of the adapter, or the HTTP request the client upgraded in a gateway
+  // res: The response of the adapter, or the client in a gateway
+  constructor(private controller: Constructor, private handler: Function, private req: IncomingMessage, private res: unknown, private ws?: { client: WsClient; data: unknown }) {
+    // An inherited handler is located on the base class defining it, whichever controller runs it
+    for (let prototype = controller.prototype; prototype && prototype !== Object.prototype && !handlerLocations.has(handler); prototype = Object.getPrototypeOf(prototype)) {
+      const key = Reflect.ownKeys(prototype).find((name) => name !== "constructor" && Object.getOwnPropertyDescriptor(prototype, name)?.value === handler);
+      if (key !== undefined) {
+        handlerLocations.set(handler, { prototype, key });
+      }
+    }
+  }
+
+  getType(): "http" | "ws" {
+    return this.ws ? "ws" : "http";
+  }
+
+  getClass<T = any>(): Constructor<T> {
+    return this.controller;
+  }
+
+  getHandler(): Function {
+    return this.handler;
+  }
+
+  getRequest<T = express.Request>(): T {
+    return this.req as T;
+  }
+
+  getResponse<T = express.Response>(): T {
+    return this.res as T;
+  }
+
+  switchToWs(): WsArgumentsHost {
+    const ws = this.ws;
+    if (!ws) {
+      throw new Error("switchToWs() is only available in the handlers of a gateway");
+    }
+    return { getClient: <T>() => ws.client as T, getData: <T>() => ws.data as T };
+  }
+}
+
+// Reflector class
+// Injectable helper to read metadata set by decorators on the handler and the controller
+// e.g. reflector.getAllAndOverride("roles", [context.getHandler(), context.getClass()])
+@Injectable()
+class Reflector {
+  // get method
+  // Used to read metadata from a single class or handler
+  // For a handler, reads the metadata stored on (prototype, key)
+  get<T = any>(metadataKey: string | symbol, target: Function): T | undefined {
+    const location = handlerLocations.get(target);
+    return location ? Reflect.getMetadata(metadataKey, location.prototype, location.key) : Reflect.getMetadata(metadataKey, target);
+  }
+
+  // getAllAndOverride method
+  // Used to read the first metadata value defined on the targets, e.g. the handler over its class
+  getAllAndOverride<T = any>(metadataKey: string | symbol, targets: Function[]): T | undefined {
+    for (const target of targets) {
+      const value = this.get<T>(metadataKey, target);
+      if (value !== undefined) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  // getAllAndMerge method
+  // Used to combine the metadata of every target: arrays are concatenated, objects are merged
+  getAllAndMerge<T extends any[] | Record<string, any> = any[]>(metadataKey: string | symbol, targets: Function[]): T {
+    const values = targets.map((target) => this.get(metadataKey, target)).filter((value) => value !== undefined);
+    if (values.length && values.every((value) => typeof value === "object" && !Array.isArray(value))) {
+      return Object.assign({}, ...values);
+    }
+    return values.flatMap((value) => value) as T;
+  }
+}
+
+// REQUEST token
+// Injects the current express request, providers depending on it are request-scoped
+const REQUEST = Symbol("REQUEST");
+
+// Request context
+// Holds the request being handled, available anywhere down its async call chain
+// e.g. RequestContext.current()?.id from a singleton service
+class RequestContext {
+  private static storage = new AsyncLocalStorage<RequestContext>();
+  private values = new Map<string | symbol, unknown>();
+  // Request-scoped instances, keyed by provider binding
+  readonly instances = new Map<symbol, unknown>();
+
+  constructor(public readonly id: string, public readonly request: express.Request, public readonly response: express.Response) {}
+
+  // current method
+  // Used to get the context of the request being handled, undefined outside of a request
+  static current(): RequestContext | undefined {
+    return RequestContext.storage.getStore();
+  }
+
+  // run method
+  // Used to run a callback, and everything it calls, within the context of a request
+  static run<T>(context: RequestContext, callback: () => T): T {
+    return RequestContext.storage.run(context, callback);
+  }
+
+  // get and set methods
+  // Used to share values for the duration of the request, e.g. the authenticated user set by a guard
+  get<T = any>(key: string | symbol): T | undefined {
+    return this.values.get(key) as T | undefined;
+  }
+
+  set(key: string | symbol, value: unknown): void {
+    this.values.set(key, value);
+  }
+}
+
+// Interceptor interfaces
+// CallHandler: handle() runs the rest of the chain (inner interceptors, pipes and the handler) and returns its result
+// Interceptor: Wraps the handler, it can transform the result, catch errors or skip the handler entirely
+interface CallHandler<T = any> {
+  handle(): Promise<T>;
+}
+
+interface Interceptor<T = any, R = any> {
+  intercept(context: ExecutionContext, next: CallHandler<T>): R | Promise<R>;
+}
+
+// UseInterceptors decorator
+// Used to apply interceptors to a route or controller
+// Interceptor classes are resolved from the container, the first one listed is the outermost
+function UseInterceptors(...interceptors: (Constructor<Interceptor> | Interceptor)[]): MethodDecorator & ClassDecorator {
+  return (target: Object | Function, propertyKey?: string | symbol, descriptor?: PropertyDescriptor): void => {
+    if (propertyKey) {
+      // Method decorator
+      const existing = Reflect.getMetadata("interceptors", target, propertyKey) || [];
+      Reflect.defineMetadata("interceptors", [...existing, ...interceptors], target, propertyKey);
+    } else {
+      // Class decorator
+      const existing = Reflect.getMetadata("interceptors", target) || [];
+      Reflect.defineMetadata("interceptors", [...existing, ...interceptors], target);
+    }
+  };
+}
+
+// UseInterceptor decorator
+// Single interceptor form of UseInterceptors
+const UseInterceptor = (interceptor: Constructor<Interceptor> | Interceptor): MethodDecorator & ClassDecorator => UseInterceptors(interceptor);
+
+// Built-in pipes
+// Used with @Param, @Query, @Body or @UsePipes to validate and coerce incoming values
+function invalidArgument(metadata: ArgumentMetadata, message: string): ValidationException {
+  return new ValidationException([{ location: metadata.type, ...(typeof metadata.data === "string" && { field: metadata.data }), path: [], message }]);
+}
+
+// ZodValidationPipe: Parses the value against a Zod schema and returns the parsed output
+class ZodValidationPipe implements PipeTransform {
+  constructor(readonly schema: z.ZodTypeAny) {}
+
+  transform(value: unknown, metadata: ArgumentMetadata): unknown {
+    const result = this.schema.safeParse(value);
+    if (!result.success) {
+      throw new ValidationException(
+        result.error.errors.map((issue) => ({
+          location: metadata.type,
+          ...(typeof metadata.data === "string" && { field: metadata.data }),
+          path: issue.path,
+          message: issue.message,
+        }))
+      );
+    }
+    return result.data;
+  }
+}
+
+// ParseIntPipe: Converts a numeric string to an integer
+class ParseIntPipe implements PipeTransform<unknown, number> {
+  transform(value: unknown, metadata: ArgumentMetadata): number {
+    if (typeof value === "number" && Number.isInteger(value)) {
+      return value;
+    }
+    if (typeof value !== "string" || !/^-?\d+$/.test(value.trim())) {
+      throw invalidArgument(metadata, "Validation failed (numeric string is expected)");
+    }
+    return parseInt(value, 10);
+  }
+}
+
+// ParseFloatPipe: Converts a numeric string to a number
+class ParseFloatPipe implements PipeTransform<unknown, number> {
+  transform(value: unknown, metadata: ArgumentMetadata): number {
+    const parsed = typeof value === "number" ? value : typeof value === "string" && value.trim() !== "" ? Number(value) : NaN;
+    if (!Number.isFinite(parsed)) {
+      throw invalidArgument(metadata, "Validation failed (numeric string is expected)");
+    }
+    return parsed;
+  }
+}
+
+// ParseBoolPipe: Converts "true" / "false" to a boolean
+class ParseBoolPipe implements PipeTransform<unknown, boolean> {
+  transform(value: unknown, metadata: ArgumentMetadata): boolean {
+    if (value === true || value === "true") {
+      return true;
+    }
+    if (value === false || value === "false") {
+      return false;
+    }
+    throw invalidArgument(metadata, "Validation failed (boolean string is expected)");
+  }
+}
+
+// ParseUUIDPipe: Checks that the value is a UUID, optionally of a specific version
+class ParseUUIDPipe implements PipeTransform<unknown, string> {
+  constructor(private options: { version?: "3" | "4" | "5" | "7" } = {}) {}
+
+  transform(value: unknown, metadata: ArgumentMetadata): string {
+    const version = this.options.version ?? "[1-8]";
+    const pattern = new RegExp(`^[0-9a-f]{8}-[0-9a-f]{4}-${version}[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$`, "i");
+    if (typeof value !== "string" || !pattern.test(value)) {
+      throw invalidArgument(metadata, `Validation failed (uuid${this.options.version ? ` v${this.options.version}` : ""} is expected)`);
+    }
+    return value;
+  }
+}
+
+// DefaultValuePipe: Replaces a missing value with a default
+// Place it before parsing pipes, e.g. @Query("page", new DefaultValuePipe(1), ParseIntPipe)
+class DefaultValuePipe<T = any> implements PipeTransform {
+  constructor(readonly defaultValue: T) {}
+
+  transform(value: unknown): unknown {
+    if (value === undefined || value === null || (typeof value === "number" && Number.isNaN(value))) {
+      return this.defaultValue;
+    }
+    return value;
+  }
+}
+
+// ParseEnumPipe: Checks that the value is one of the values of an enum or object
+class ParseEnumPipe<T extends Record<string, string | number>> implements PipeTransform<unknown, T[keyof T]> {
+  constructor(readonly enumType: T) {}
+
+  transform(value: unknown, metadata: ArgumentMetadata): T[keyof T] {
+    const values = Object.keys(this.enumType)
+      .filter((key) => Number.isNaN(Number(key)))
+      .map((key) => this.enumType[key]);
+    const match = values.find((candidate) => candidate === value || String(candidate) === value);
+    if (match === undefined) {
+      throw invalidArgument(metadata, `Validation failed (one of ${values.join(", ")} is expected)`);
+    }
+    return match as T[keyof T];
+  }
+}
+
+// OpenAPI decorators
+// Used to describe routes in the generated OpenAPI document
+interface ApiOperationOptions {
+  summary?: string;
+  description?: string;
+  operationId?: string;
+  deprecated?: boolean;
+}
+
+interface ApiResponseOptions {
+  status: number | "default";
+  description?: string;
+  schema?: z.ZodTypeAny;
+  contentType?: string;
+}
+
+// ApiTags: Groups the routes of a controller or a single route under tags
+function ApiTags(...tags: string[]): MethodDecorator & ClassDecorator {
+  return (target: Object | Function, propertyKey?: string | symbol, descriptor?: PropertyDescriptor): void => {
+    if (propertyKey) {
+      Reflect.defineMetadata("openapi:tags", tags, target, propertyKey);
+    } else {
+      Reflect.defineMetadata("openapi:tags", tags, target);
+    }
+  };
+}
+
+// ApiOperation: Sets the summary, description and operationId of a route
+function ApiOperation(options: ApiOperationOptions): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol, descriptor: PropertyDescriptor): void => {
+    Reflect.defineMetadata("openapi:operation", options, target, propertyKey);
+  };
+}
+
+// ApiResponse: Documents a response of a route or of every route in a controller
+// The Zod schema is converted to JSON Schema
+function ApiResponse(options: ApiResponseOptions): MethodDecorator & ClassDecorator {
+  return (target: Object | Function, propertyKey?: string | symbol, descriptor?: PropertyDescriptor): void => {
+    if (propertyKey) {
+      const responses: ApiResponseOptions[] = Reflect.getMetadata("openapi:responses", target, propertyKey) || [];
+      Reflect.defineMetadata("openapi:responses", [...responses, options], target, propertyKey);
+    } else {
+      const responses: ApiResponseOptions[] = Reflect.getMetadata("openapi:responses", target) || [];
+      Reflect.defineMetadata("openapi:responses", [...responses, options], target);
+    }
+  };
+}
+
+// ApiSecurity: Marks a route or controller as requiring a security scheme
+// The scheme itself is declared in the OpenAPI options
+function ApiSecurity(name: string, scopes: string[] = []): MethodDecorator & ClassDecorator {
+  return (target: Object | Function, propertyKey?: string | symbol, descriptor?: PropertyDescriptor): void => {
+    if (propertyKey) {
+      const security: Record<string, string[]>[] = Reflect.getMetadata("openapi:security", target, propertyKey) || [];
+      Reflect.defineMetadata("openapi:security", [...security, { [name]: scopes }], target, propertyKey);
+    } else {
+      const security: Record<string, string[]>[] = Reflect.getMetadata("openapi:security", target) || [];
+      Reflect.defineMetadata("openapi:security", [...security, { [name]: scopes }], target);
+    }
+  };
+}
+
+// ApiBearerAuth: Shortcut for a bearer token security scheme
+// The scheme is added to the document automatically when it is not declared
+function ApiBearerAuth(name = "bearer"): MethodDecorator & ClassDecorator {
+  return ApiSecurity(name);
+}
+
+// OpenAPI types
+type JsonSchema = { [key: string]: any };
+
+interface OpenApiOptions {
+  info?: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  securitySchemes?: Record<string, JsonSchema>;
+  // path: Route the JSON document is served at, e.g. "/openapi.json"
+  path?: string;
+}
+
+interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  paths: Record<string, Record<string, JsonSchema>>;
+  components: { securitySchemes?: Record<string, JsonSchema> };
+}
+
+// zodToJsonSchema function
+// Used to convert a Zod schema to a JSON Schema (draft 2020-12, as used by OpenAPI 3.1)
+function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const jsonSchema = convertZodType(schema);
+  if (schema.description) {
+    jsonSchema.description = schema.description;
+  }
+  return jsonSchema;
+}
+
+function convertZodType(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: "string" };
+    const formats: Record<string, string> = { email: "email", url: "uri", uuid: "uuid", datetime: "date-time", date: "date", time: "time", duration: "duration" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") result.minLength = check.value;
+      else if (check.kind === "max") result.maxLength = check.value;
+      else if (check.kind === "length") result.minLength = result.maxLength = check.value;
+      else if (check.kind === "regex") result.pattern = check.regex.source;
+      else if (check.kind in formats) result.format = formats[check.kind];
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: schema.isInt ? "integer" : "number" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") result[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+      else if (check.kind === "max") result[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+      else if (check.kind === "multipleOf") result.multipleOf = check.value;
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodBigInt) return { type: "integer", format: "int64" };
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+  if (schema instanceof z.ZodDate) return { type: "string", format: "date-time" };
+  if (schema instanceof z.ZodNull) return { type: "null" };
+  if (schema instanceof z.ZodLiteral) return { const: schema.value };
+  if (schema instanceof z.ZodEnum) return { type: "string", enum: [...schema.options] };
+  if (schema instanceof z.ZodNativeEnum) {
+    const values = Object.keys(schema.enum)
+      .filter((key) => Number.isNaN(Number(key)))
+      .map((key) => schema.enum[key]);
+    return { enum: values };
+  }
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: "array", items: zodToJsonSchema(schema.element) };
+    if (schema._def.minLength) result.minItems = schema._def.minLength.value;
+    if (schema._def.maxLength) result.maxItems = schema._def.maxLength.value;
+    if (schema._def.exactLength) result.minItems = result.maxItems = schema._def.exactLength.value;
+    return result;
+  }
+  if (schema instanceof z.ZodTuple) {
+    return { type: "array", prefixItems: schema.items.map((item: z.ZodTypeAny) => zodToJsonSchema(item)) };
+  }
+  if (schema instanceof z.ZodObject) {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    for (const [key, value] of Object.entries(schema.shape as Record<string, z.ZodTypeAny>)) {
+      properties[key] = zodToJsonSchema(value);
+      if (!value.isOptional()) {
+        required.push(key);
+      }
+    }
+    const result: JsonSchema = { type: "object", properties };
+    if (required.length) result.required = required;
+    if (schema._def.unknownKeys === "strict") result.additionalProperties = false;
+    return result;
+  }
+  if (schema instanceof z.ZodRecord) return { type: "object", additionalProperties: zodToJsonSchema(schema.valueSchema) };
+  if (schema instanceof z.ZodUnion) return { anyOf: schema.options.map((option: z.ZodTypeAny) => zodToJsonSchema(option)) };
+  if (schema instanceof z.ZodDiscriminatedUnion) return { oneOf: schema.options.map((option: z.ZodTypeAny) => zodToJsonSchema(option)) };
+  if (schema instanceof z.ZodIntersection) return { allOf: [zodToJsonSchema(schema._def.left), zodToJsonSchema(schema._def.right)] };
+  if (schema instanceof z.ZodOptional) return zodToJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodNullable) return { anyOf: [zodToJsonSchema(schema.unwrap()), { type: "null" }] };
+  if (schema instanceof z.ZodDefault) return { ...zodToJsonSchema(schema._def.innerType), default: schema._def.defaultValue() };
+  if (schema instanceof z.ZodEffects) return zodToJsonSchema(schema.innerType());
+  if (schema instanceof z.ZodPipeline) return zodToJsonSchema(schema._def.in);
+  if (schema instanceof z.ZodBranded) return zodToJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodCatch) return zodToJsonSchema(schema.removeCatch());
+  if (schema instanceof z.ZodReadonly) return zodToJsonSchema(schema.unwrap());
+  if (schema instanceof z.ZodLazy) return {};
+  // ZodAny, ZodUnknown and anything without a JSON Schema equivalent
+  return {};
+}
+
+// OpenApiGenerator class
+// Used to build an OpenAPI 3.1 document from the registered routes and their metadata
+class OpenApiGenerator {
+  constructor(private options: OpenApiOptions = {}, private versioning?: VersioningOptions) {}
+
+  generate(routes: RouteDefinition[]): OpenApiDocument {
+    const document: OpenApiDocument = {
+      openapi: "3.1.0",
+      info: this.options.info || { title: "API", version: "1.0.0" },
+      ...(this.options.servers && { servers: this.options.servers }),
+      paths: {},
+      components: {},
+    };
+    const securitySchemes: Record<string, JsonSchema> = { ...this.options.securitySchemes };
+
+    for (const route of routes) {
+      for (const [path, operation] of this.createVersionedOperations(route)) {
+        for (const requirement of operation.security || []) {
+          for (const name of Object.keys(requirement)) {
+            if (!securitySchemes[name]) {
+              securitySchemes[name] = { type: "http", scheme: "bearer" };
+            }
+          }
+        }
+
+        const existing = document.paths[path]?.[route.method];
+        if (existing?.["x-api-versions"] && operation["x-api-versions"]) {
+          // Another version of a route with the same path, with header or media-type versioning
+          this.addVersions(existing, operation["x-api-versions"]);
+        } else {
+          document.paths[path] = { ...document.paths[path], [route.method]: operation };
+        }
+      }
+    }
+
+    if (Object.keys(securitySchemes).length) {
+      document.components.securitySchemes = securitySchemes;
+    }
+    return document;
+  }
+
+  // createVersionedOperations method
+  // Used to document a route once per version with uri versioning, under the version prefix,
+  // and once with its versions listed otherwise (x-api-versions, and a header parameter with header versioning)
+  private createVersionedOperations(route: RouteDefinition): [string, JsonSchema][] {
+    const path = route.path.replace(/:([A-Za-z0-9_]+)/g, "{$1}") || "/";
+    const versions = this.versioning ? route.versions || [] : [];
+    if (!this.versioning || !versions.length || versions.includes(VERSION_NEUTRAL)) {
+      return [[path, this.createOperation(route)]];
+    }
+    if (this.versioning.type === "uri") {
+      const prefix = this.versioning.prefix ?? "v";
+      return versions.map((version) => {
+        const operation = this.createOperation(route);
+        if (versions.length > 1) {
+          operation.operationId = `${operation.operationId}_${prefix}${String(version)}`;
+        }
+        return [`/${prefix}${String(version)}${path === "/" ? "" : path}`, operation];
+      });
+    }
+    const operation = this.createOperation(route);
+    if (this.versioning.type === "header") {
+      const parameter = { name: this.versioning.header ?? "X-API-Version", in: "header", required: false, schema: { type: "string", enum: [] } };
+      operation.parameters = [...(operation.parameters || []), parameter];
+    }
+    operation["x-api-versions"] = [];
+    this.addVersions(operation, versions.map(String));
+    return [[path, operation]];
+  }
+
+  // addVersions method
+  // Used to add versions to an operation documented with header or media-type versioning
+  private addVersions(operation: JsonSchema, versions: string[]): void {
+    operation["x-api-versions"] = [...new Set([...operation["x-api-versions"], ...versions])];
+    const header = this.versioning?.header ?? "X-API-Version";
+    const parameter = (operation.parameters || []).find((candidate: JsonSchema) => candidate.in === "header" && candidate.name === header);
+    if (parameter) {
+      parameter.schema.enum = operation["x-api-versions"];
+    }
+  }
+
+  private createOperation({ controller, handlerName, path, params }: RouteDefinition): JsonSchema {
+    const prototype = controller.prototype;
+    const operationOptions: ApiOperationOptions = Reflect.getMetadata("openapi:operation", prototype, handlerName) || {};
+    const tags: string[] = [...(Reflect.getMetadata("openapi:tags", controller) || []), ...(Reflect.getMetadata("openapi:tags", prototype, handlerName) || [])];
+    const security: Record<string, string[]>[] = [
+      ...(Reflect.getMetadata("openapi:security", controller) || []),
+      ...(Reflect.getMetadata("openapi:security", prototype, handlerName) || []),
+    ];
+    const responses: ApiResponseOptions[] = [
+      ...(Reflect.getMetadata("openapi:responses", controller) || []),
+      ...(Reflect.getMetadata("openapi:responses", prototype, handlerName) || []),
+    ];
+
+    const operation: JsonSchema = {
+      operationId: operationOptions.operationId || `${controller.name}_${handlerName}`,
+      ...(operationOptions.summary && { summary: operationOptions.summary }),
+      ...(operationOptions.description && { description: operationOptions.description }),
+      ...(operationOptions.deprecated && { deprecated: true }),
+      ...(tags.length && { tags: [...new Set(tags)] }),
+      ...(security.length && { security }),
+    };
+
+    const parameters: JsonSchema[] = [];
+    const pathParams = [...path.matchAll(/:([A-Za-z0-9_]+)/g)].map((match) => match[1]);
+    for (const name of pathParams) {
+      const param = params.find((candidate) => candidate.type === "param" && candidate.data === name);
+      parameters.push({ name, in: "path", required: true, schema: this.getPipesSchema(param?.pipes) || { type: "string" } });
+    }
+    for (const param of params.filter((candidate) => candidate.type === "query" && candidate.data)) {
+      const schema = this.getPipesSchema(param.pipes) || { type: "string" };
+      const required = !(param.pipes || []).some((pipe) => pipe instanceof DefaultValuePipe || (pipe instanceof z.ZodType && pipe.isOptional()));
+      parameters.push({ name: param.data, in: "query", required, schema });
+    }
+    for (const param of params.filter((candidate) => candidate.type === "headers" && candidate.data)) {
+      parameters.push({ name: param.data, in: "header", required: false, schema: this.getPipesSchema(param.pipes) || { type: "string" } });
+    }
+    if (parameters.length) {
+      operation.parameters = parameters;
+    }
+
+    const body = params.find((param) => param.type === "body");
+    if (body) {
+      operation.requestBody = {
+        required: true,
+        content: { "application/json": { schema: this.getPipesSchema(body.pipes) || {} } },
+      };
+    }
+
+    operation.responses = {};
+    const defaultStatus: number = Reflect.getMetadata("httpCode", prototype, handlerName) || 200;
+    const sse = Reflect.getMetadata("sse", prototype, handlerName);
+    for (const response of responses.length ? responses : [{ status: defaultStatus } as ApiResponseOptions]) {
+      operation.responses[String(response.status)] = {
+        description: response.description || "",
+        ...(sse && !response.schema && { content: { "text/event-stream": { schema: { type: "string" } } } }),
+        ...(response.schema && { content: { [response.contentType || "application/json"]: { schema: zodToJsonSchema(response.schema) } } }),
+      };
+    }
+    return operation;
+  }
+
+  // getPipesSchema method
+  // Used to derive a JSON Schema from the pipes of a parameter
+  // The last pipe that describes a type wins, since it produces the value the handler receives
+  private getPipesSchema(pipes: Pipe[] = []): JsonSchema | undefined {
+    let schema: JsonSchema | undefined;
+    for (const pipe of pipes) {
+      if (pipe instanceof z.ZodType) schema = zodToJsonSchema(pipe);
+      else if (pipe instanceof ZodValidationPipe) schema = zodToJsonSchema(pipe.schema);
+      else if (pipe === ParseIntPipe || pipe instanceof ParseIntPipe) schema = { type: "integer" };
+      else if (pipe === ParseFloatPipe || pipe instanceof ParseFloatPipe) schema = { type: "number" };
+      else if (pipe === ParseBoolPipe || pipe instanceof ParseBoolPipe) schema = { type: "boolean" };
+      else if (pipe === ParseUUIDPipe || pipe instanceof ParseUUIDPipe) schema = { type: "string", format: "uuid" };
+      else if (pipe instanceof ParseEnumPipe) schema = zodToJsonSchema(z.nativeEnum(pipe.enumType));
+    }
+    const defaultPipe = pipes.find((pipe) => pipe instanceof DefaultValuePipe) as DefaultValuePipe | undefined;
+    if (schema && defaultPipe) {
+      schema = { ...schema, default: defaultPipe.defaultValue };
+    }
+    return schema;
+  }
+}
+
+// Log levels, from the most to the least severe
+type LogLevel = "error" | "warn" | "log" | "debug" | "verbose";
+
+// LogEntry
+// A structured log record, the request id correlates the entries written while handling a request
+interface LogEntry {
+  level: LogLevel;
+  message: string;
+  timestamp: Date;
+  context?: string;
+  requestId?: string;
+  fields: Record<string, unknown>;
+}
+
+// LoggerService interface
+// The implementation entries are written to, replaced app-wide with app.useLogger()
+interface LoggerService {
+  write(entry: LogEntry): void;
+}
+
+// ConsoleLogger options
+// format: "pretty" for humans, "json" for one JSON object per line
+// levels: The levels that are written (default: error, warn and log)
+interface ConsoleLoggerOptions {
+  format?: "pretty" | "json";
+  levels?: LogLevel[];
+}
+
+// ConsoleLogger class
+// Writes entries to stdout, errors to stderr
+class ConsoleLogger implements LoggerService {
+  private static colors: Record<LogLevel, string> = { error: "\x1b[31m", warn: "\x1b[33m", log: "\x1b[32m", debug: "\x1b[35m", verbose: "\x1b[36m" };
+
+  constructor(private options: ConsoleLoggerOptions = {}) {}
+
+  write(entry: LogEntry): void {
+    if (!(this.options.levels || ["error", "warn", "log"]).includes(entry.level)) {
+      return;
+    }
+    const stream = entry.level === "error" ? process.stderr : process.stdout;
+    stream.write((this.options.format === "json" ? this.formatJson(entry) : this.formatPretty(entry, stream.isTTY)) + "\n");
+  }
+
+  private formatJson({ level, message, timestamp, context, requestId, fields }: LogEntry): string {
+    const serialized = Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, value instanceof Error ? serializeError(value) : value]));
+    return JSON.stringify({ timestamp: timestamp.toISOString(), level, context, requestId, message, ...serialized });
+  }
+
+  private formatPretty({ level, message, timestamp, context, requestId, fields }: LogEntry, colored: boolean): string {
+    const { error, ...rest } = fields;
+    const label = level.toUpperCase().padStart(7);
+    const line = [
+      timestamp.toISOString(),
+      colored ? `${ConsoleLogger.colors[level]}${label}\x1b[0m` : label,
+      context && `[${context}]`,
+      message,
+      Object.keys(rest).length ? JSON.stringify(rest) : undefined,
+      requestId && `(${requestId})`,
+    ]
+      .filter(Boolean)
+      .join(" ");
+    return error instanceof Error && error.stack ? `${line}\n${error.stack}` : error !== undefined ? `${line} ${String(error)}` : line;
+  }
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+  return { name: error.name, message: error.message, stack: error.stack, ...(error.cause !== undefined && { cause: String(error.cause) }) };
+}
+
+// Logger class
+// Used to write log entries with a context, e.g. new Logger(UserService.name)
+// Injected, it is named after the class it is injected into
+// Entries are written to the app-wide LoggerService with the id of the request being handled
+class Logger {
+  private static service: LoggerService = new ConsoleLogger();
+
+  constructor(private context?: string) {}
+
+  // overrideLogger method
+  // Used to replace the implementation every logger writes to
+  static overrideLogger(service: LoggerService): void {
+    Logger.service = service;
+  }
+
+  error(message: string, fields: Record<string, unknown> = {}): void {
+    this.write("error", message, fields);
+  }
+
+  warn(message: string, fields: Record<string, unknown> = {}): void {
+    this.write("warn", message, fields);
+  }
+
+  log(message: string, fields: Record<string, unknown> = {}): void {
+    this.write("log", message, fields);
+  }
+
+  debug(message: string, fields: Record<string, unknown> = {}): void {
+    this.write("debug", message, fields);
+  }
+
+  verbose(message: string, fields: Record<string, unknown> = {}): void {
+    this.write("verbose", message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: Record<string, unknown>): void {
+    Logger.service.write({ level, message, timestamp: new Date(), context: this.context, requestId: RequestContext.current()?.id, fields });
+  }
+}
+
+// OnEvent options
+// async: Run the listener after emit returns, without waiting for it
+// prependListener: Run the listener before the ones already registered for the event
+interface OnEventOptions {
+  async?: boolean;
+  prependListener?: boolean;
+}
+
+interface EventListenerMetadata {
+  event: string;
+  handlerName: string | symbol;
+  options: OnEventOptions;
+}
+
+// OnEvent decorator
+// Used to call a provider method when an event is emitted, listeners are discovered by registerModule
+// Event names are namespaced with dots, "*" matches one segment and "**" any number of segments (e.g. "user.*")
+function OnEvent(event: string | string[], options: OnEventOptions = {}): MethodDecorator {
+  return (target: any, key: string | symbol) => {
+    const listeners: EventListenerMetadata[] = Reflect.getMetadata("events", target) || [];
+    const added = ([] as string[]).concat(event).map((name) => ({ event: name, handlerName: key, options }));
+    Reflect.defineMetadata("events", [...listeners, ...added], target);
+  };
+}
+
+type EventListener = (payload: any, event: string) => unknown;
+
+// compileEventPattern function
+// Used to turn an event name with wildcards into a regular expression
+function compileEventPattern(event: string): RegExp {
+  const source = event
+    .split(".")
+    .map((part) => (part === "**" ? ".+" : part === "*" ? "[^.]+" : part.replace(/[-/\\^$*+?()|[\]{}]/g, "\\$&")))
+    .join("\\.");
+  return new RegExp(`^${source}$`);
+}
+
+// EventEmitter class
+// Injectable in-process event bus, providers talk through it without depending on each other
+// A failing listener is logged and does not prevent the other listeners from running
+@Injectable()
+class EventEmitter {
+  private listeners: { pattern: RegExp; listener: EventListener; options: OnEventOptions }[] = [];
+  private logger = new Logger("EventEmitter");
+
+  // on method
+  // Used to add a listener, returns a function that removes it
+  on(event: string, listener: EventListener, options: OnEventOptions = {}): () => void {
+    const entry = { pattern: compileEventPattern(event), listener, options };
+    if (options.prependListener) {
+      this.listeners.unshift(entry);
+    } else {
+      this.listeners.push(entry);
+    }
+    return () => {
+      this.listeners = this.listeners.filter((candidate) => candidate !== entry);
+    };
+  }
+
+  // emit method
+  // Used to call the listeners of an event without waiting for async ones, returns whether there were any
+  emit(event: string, payload?: unknown): boolean {
+    const listeners = this.getListeners(event);
+    for (const { listener, options } of listeners) {
+      if (options.async) {
+        Promise.resolve().then(() => this.callListener(event, listener, payload));
+      } else {
+        this.callListener(event, listener, payload);
+      }
+    }
+    return listeners.length > 0;
+  }
+
+  // emitAsync method
+  // Used to call the listeners of an event and wait for all of them, returns the results of those that succeeded
+  async emitAsync<T = unknown>(event: string, payload?: unknown): Promise<T[]> {
+    const results = await Promise.all(this.getListeners(event).map(({ listener }) => this.callListener(event, listener, payload)));
+    return results.filter((result): result is { value: T } => result !== undefined).map((result) => result.value);
+  }
+
+  private getListeners(event: string) {
+    return this.listeners.filter(({ pattern }) => pattern.test(event));
+  }
+
+  // callListener method
+  // Used to run a listener, its errors (sync or async) are logged instead of being thrown
+  private async callListener(event: string, listener: EventListener, payload: unknown): Promise<{ value: any } | undefined> {
+    try {
+      return { value: await listener(payload, event) };
+    } catch (error) {
+      this.logger.error(`Listener of "${event}" failed`, { error });
+      return undefined;
+    }
+  }
+}
+
+// HTTP adapter types
+// FrameworkRequest: A request of any adapter, with the properties the framework sets on it (typed on express requests by index.d.ts)
+// AdapterHandler: A middleware or route handler, next("route") skips to the next matching route
+// AdapterErrorHandler: The last handler of a route, called with the error of any handler before it
+type FrameworkRequest = IncomingMessage & {
+  container: InversifyContainer;
+  hosts?: Record<string, string>;
+  version?: string;
+  cookies?: Record<string, string>;
+  session?: unknown;
+};
+type AdapterHandler<TRequest = FrameworkRequest, TResponse = ServerResponse> = (req: TRequest, res: TResponse, next: (error?: unknown) => void) => unknown;
+type AdapterErrorHandler<TRequest = FrameworkRequest, TResponse = ServerResponse> = (error: unknown, req: TRequest, res: TResponse, next: (error?: unknown) => void) => unknown;
+
+// HttpAdapter
+// The HTTP server the application runs on, the framework registers routes, reads requests
+// and sends responses only through it: ExpressAdapter (the default) or NodeHttpAdapter
+// TInstance: The underlying server, e.g. the express application
+interface HttpAdapter<TInstance = any, TRequest = FrameworkRequest, TResponse = ServerResponse> {
+  getInstance(): TInstance;
+  use(handler: AdapterHandler<TRequest, TResponse>): void;
+  route(method: RouteMetadata["method"], path: string, handlers: AdapterHandler<TRequest, TResponse>[], errorHandler?: AdapterErrorHandler<TRequest, TResponse>): void;
+  // parseBody: Parses a JSON body, rejects with an error carrying the status (e.g. 400 or 413) when it cannot
+  parseBody(req: TRequest, res: TResponse): Promise<void>;
+  getRequestMethod(req: TRequest): string;
+  // getRequestUrl: The url as sent by the client, setRequestUrl changes the url routes are matched against
+  getRequestUrl(req: TRequest): string;
+  setRequestUrl(req: TRequest, url: string): void;
+  getRequestHostname(req: TRequest): string;
+  getRequestIp(req: TRequest): string | undefined;
+  getRequestHeader(req: TRequest, name: string): string | undefined;
+  getRequestHeaders(req: TRequest): IncomingHttpHeaders;
+  getParams(req: TRequest): Record<string, string>;
+  getQuery(req: TRequest): Record<string, unknown>;
+  getBody(req: TRequest): unknown;
+  // getRoutePath: The path pattern of the route matched by the request, e.g. /users/:id
+  getRoutePath(req: TRequest): string | undefined;
+  getRawResponse(res: TResponse): ServerResponse;
+  status(res: TResponse, statusCode: number): void;
+  getStatus(res: TResponse): number;
+  setHeader(res: TResponse, name: string, value: number | string | string[]): void;
+  getHeader(res: TResponse, name: string): number | string | string[] | undefined;
+  removeHeader(res: TResponse, name: string): void;
+  isHeadersSent(res: TResponse): boolean;
+  // reply: Sends strings as HTML, buffers as binary data and anything else as JSON
+  // with a weak ETag, and an empty 304 to GET and HEAD requests whose If-None-Match matches it
+  reply(res: TResponse, body: unknown): void;
+  redirect(res: TResponse, statusCode: number, url: string): void;
+  render(res: TResponse, view: string, data: object): Promise<string>;
+  listen(port: number, callback?: () => void): Server;
+  // getRequestListener: Handles a request of a node:http server, used by MiniFramework.inject
+  getRequestListener(): (req: IncomingMessage, res: ServerResponse) => void;
+}
+
+// Weak ETag of a response body, computed the way express does: W/"<length in hex>-<sha1 of the body>"
+function createWeakETag(payload: string | Buffer): string {
+  const hash = createHash("sha1").update(payload).digest("base64").substring(0, 27);
+  return `W/"${Buffer.byteLength(payload).toString(16)}-${hash}"`;
+}
+
+// HttpAdapterHost class
+// Injectable, gives guards, interceptors and filters the adapter of the application, e.g. to set a response header
+class HttpAdapterHost {
+  constructor(readonly httpAdapter: HttpAdapter) {}
+}
+
+// ExpressAdapter class
+// Runs the application on express, the default adapter
+// Responses sent with reply get a weak ETag, and a 304 when it matches If-None-Match
+class ExpressAdapter implements HttpAdapter<express.Application, express.Request, express.Response> {
+  private jsonParser = express.json();
+
+  // The ETag setting is set on applications given by the caller too, they may have turned it off
+  constructor(private app: express.Application = express()) {
+    this.app.set("etag", "weak");
+  }
+
+  getInstance(): express.Application {
+    return this.app;
+  }
+
+  use(handler: AdapterHandler<express.Request, express.Response>): void {
+    this.app.use(handler as express.RequestHandler);
+  }
+
+  route(
+    method: RouteMetadata["method"],
+    path: string,
+    handlers: AdapterHandler<express.Request, express.Response>[],
+    errorHandler?: AdapterErrorHandler<express.Request, express.Response>
+  ): void {
+    // express tells error handlers apart by their four parameters
+    this.app[method](path, ...(handlers as express.RequestHandler[]), ...(errorHandler ? [errorHandler as express.ErrorRequestHandler] : []));
+  }
+
+  parseBody(req: express.Request, res: express.Response): Promise<void> {
+    return new Promise((resolve, reject) => this.jsonParser(req, res, (error?: unknown) => (error ? reject(error) : resolve())));
+  }
+
+  getRequestMethod(req: express.Request): string {
+    return req.method;
+  }
+
+  getRequestUrl(req: express.Request): string {
+    return req.originalUrl;
+  }
+
+  setRequestUrl(req: express.Request, url: string): void {
+    req.url = url;
+  }
+
+  getRequestHostname(req: express.Request): string {
+    return req.hostname;
+  }
+
+  getRequestIp(req: express.Request): string | undefined {
+    return req.ip;
+  }
+
+  getRequestHeader(req: express.Request, name: string): string | undefined {
+    return req.get(name);
+  }
+
+  getRequestHeaders(req: express.Request): IncomingHttpHeaders {
+    return req.headers;
+  }
+
+  getParams(req: express.Request): Record<string, string> {
+    return req.params;
+  }
+
+  getQuery(req: express.Request): Record<string, unknown> {
+    return req.query;
+  }
+
+  getBody(req: express.Request): unknown {
+    return req.body;
+  }
+
+  getRoutePath(req: express.Request): string | undefined {
+    return req.route?.path;
+  }
+
+  getRawResponse(res: express.Response): ServerResponse {
+    return res;
+  }
+
+  status(res: express.Response, statusCode: number): void {
+    res.status(statusCode);
+  }
+
+  getStatus(res: express.Response): number {
+    return res.statusCode;
+  }
+
+  setHeader(res: express.Response, name: string, value: number | string | string[]): void {
+    res.setHeader(name, value);
+  }
+
+  getHeader(res: express.Response, name: string): number | string | string[] | undefined {
+    return res.getHeader(name);
+  }
+
+  removeHeader(res: express.Response, name: string): void {
+    res.removeHeader(name);
+  }
+
+  isHeadersSent(res: express.Response): boolean {
+    return res.headersSent;
+  }
+
+  reply(res: express.Response, body: unknown): void {
+    res.send(body);
+  }
+
+  redirect(res: express.Response, statusCode: number, url: string): void {
+    res.redirect(statusCode, url);
+  }
+
+  render(res: express.Response, view: string, data: object): Promise<string> {
+    return new Promise((resolve, reject) => res.render(view, data, (error: Error, rendered: string) => (error ? reject(error) : resolve(rendered))));
+  }
+
+  listen(port: number, callback?: () => void): Server {
+    return this.app.listen(port, callback);
+  }
+
+  getRequestListener(): (req: IncomingMessage, res: ServerResponse) => void {
+    return (req, res) => this.app(req as express.Request, res as express.Response);
+  }
+}
+
+// NodeHttpRequest
+// The requests of NodeHttpAdapter, with the same params, query, body, route and originalUrl properties as express ones
+type NodeHttpRequest = FrameworkRequest & {
+  originalUrl: string;
+  params: Record<string, string>;
+  query: ParsedQs;
+  body?: unknown;
+  route?: { path: string };
+};
+type NodeHttpHandler = AdapterHandler<NodeHttpRequest, ServerResponse>;
+type NodeHttpErrorHandler = AdapterErrorHandler<NodeHttpRequest, ServerResponse>;
+
+// NodeHttpAdapterOptions
+// bodyLimit: The largest JSON body accepted, in bytes (default: 100kb, as express.json)
+interface NodeHttpAdapterOptions {
+  bodyLimit?: number;
+}
+
+// NodeHttpAdapter class
+// Runs the application on node:http, without any server framework, e.g. for high-throughput services
+// Routes use the express path syntax (:param, :param?, :param(regex) and *), views are not supported
+class NodeHttpAdapter implements HttpAdapter<Server, NodeHttpRequest, ServerResponse> {
+  private server: Server;
+  private layers: { handlers: NodeHttpHandler[]; errorHandler?: NodeHttpErrorHandler; route?: { method: string; path: string; pattern: RegExp; keys: string[] } }[] = [];
+  private parsedBodies = new WeakSet<IncomingMessage>();
+
+  constructor(private options: NodeHttpAdapterOptions = {}) {
+    this.server = createServer(this.getRequestListener());
+  }
+
+  getInstance(): Server {
+    return this.server;
+  }
+
+  use(handler: NodeHttpHandler): void {
+    this.layers.push({ handlers: [handler] });
+  }
+
+  route(method: RouteMetadata["method"], path: string, handlers: NodeHttpHandler[], errorHandler?: NodeHttpErrorHandler): void {
+    this.layers.push({ handlers, errorHandler, route: { method, path, pattern: compileRoutePattern(path), keys: getRouteKeys(path) } });
+  }
+
+  parseBody(req: NodeHttpRequest): Promise<void> {
+    req.body ??= {};
+    const type = (req.headers["content-type"] || "").split(";")[0].trim().toLowerCase();
+    const hasBody = req.headers["transfer-encoding"] !== undefined || req.headers["content-length"] !== undefined;
+    if (type !== "application/json" || !hasBody || this.parsedBodies.has(req)) {
+      return Promise.resolve();
+    }
+    this.parsedBodies.add(req);
+    const limit = this.options.bodyLimit ?? 100 * 1024;
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      const onData = (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > limit) {
+          // The rest of the body is drained, so that the error response can still be sent
+          req.removeListener("data", onData);
+          req.resume();
+          reject(Object.assign(new Error("request entity too large"), { status: 413 }));
+        } else {
+          chunks.push(chunk);
+        }
+      };
+      req.on("data", onData);
+      req.once("error", reject);
+      req.once("end", () => {
+        if (size > limit) {
+          return;
+        }
+        const text = Buffer.concat(chunks).toString("utf8");
+        // Only objects and arrays are accepted, as with express.json in strict mode
+        if (text.trim() && !/^\s*[[{]/.test(text)) {
+          return reject(Object.assign(new Error(`Unexpected token in JSON body`), { status: 400 }));
+        }
+        try {
+          req.body = text.trim() ? JSON.parse(text) : {};
+          resolve();
+        } catch (error) {
+          reject(Object.assign(new Error((error as Error).message), { status: 400 }));
+        }
+      });
+    });
+  }
+
+  getRequestMethod(req: NodeHttpRequest): string {
+    return req.method || "GET";
+  }
+
+  getRequestUrl(req: NodeHttpRequest): string {
+    return req.originalUrl;
+  }
+
+  setRequestUrl(req: NodeHttpRequest, url: string): void {
+    req.url = url;
+  }
+
+  getRequestHostname(req: NodeHttpRequest): string {
+    return (req.headers.host || "").replace(/:\d+$/, "");
+  }
+
+  getRequestIp(req: NodeHttpRequest): string | undefined {
+    return req.socket.remoteAddress;
+  }
+
+  getRequestHeader(req: NodeHttpRequest, name: string): string | undefined {
+    const value = req.headers[name.toLowerCase()];
+    return Array.isArray(value) ? value.join(", ") : value;
+  }
+
+  getRequestHeaders(req: NodeHttpRequest): IncomingHttpHeaders {
+    return req.headers;
+  }
+
+  getParams(req: NodeHttpRequest): Record<string, string> {
+    return req.params;
+  }
+
+  getQuery(req: NodeHttpRequest): Record<string, unknown> {
+    return req.query;
+  }
+
+  getBody(req: NodeHttpRequest): unknown {
+    return req.body;
+  }
+
+  getRoutePath(req: NodeHttpRequest): string | undefined {
+    return req.route?.path;
+  }
+
+  getRawResponse(res: ServerResponse): ServerResponse {
+    return res;
+  }
+
+  status(res: ServerResponse, statusCode: number): void {
+    res.statusCode = statusCode;
+  }
+
+  getStatus(res: ServerResponse): number {
+    return res.statusCode;
+  }
+
+  setHeader(res: ServerResponse, name: string, value: number | string | string[]): void {
+    res.setHeader(name, value);
+  }
+
+  getHeader(res: ServerResponse, name: string): number | string | string[] | undefined {
+    return res.getHeader(name);
+  }
+
+  removeHeader(res: ServerResponse, name: string): void {
+    res.removeHeader(name);
+  }
+
+  isHeadersSent(res: ServerResponse): boolean {
+    return res.headersSent;
+  }
+
+  // reply method
+  // Used to send a body the way express res.send does: strings as HTML, buffers as binary data, null as an empty body
+  reply(res: ServerResponse, body: unknown): void {
+    let payload: string | Buffer | undefined;
+    let type: string | undefined;
+    if (typeof body === "string") {
+      [payload, type] = [body, "text/html; charset=utf-8"];
+    } else if (Buffer.isBuffer(body)) {
+      [payload, type] = [body, "application/octet-stream"];
+    } else if (body === null) {
+      payload = "";
+    } else if (body !== undefined) {
+      [payload, type] = [JSON.stringify(body), "application/json; charset=utf-8"];
+    }
+    if (type && !res.hasHeader("Content-Type")) {
+      res.setHeader("Content-Type", type);
+    }
+    if (payload !== undefined) {
+      res.setHeader("Content-Length", Buffer.byteLength(payload));
+      if (!res.hasHeader("ETag")) {
+        res.setHeader("ETag", createWeakETag(payload));
+      }
+    }
+    if (this.isFresh(res)) {
+      res.statusCode = 304;
+      ["Content-Type", "Content-Length", "Transfer-Encoding"].forEach((name) => res.removeHeader(name));
+      res.end();
+      return;
+    }
+    res.end(res.req?.method === "HEAD" ? undefined : payload);
+  }
+
+  // isFresh method
+  // Used to check if the client already has the response, a successful GET or HEAD whose ETag matches If-None-Match
+  private isFresh(res: ServerResponse): boolean {
+    const ifNoneMatch = res.req?.headers["if-none-match"];
+    const etag = res.getHeader("ETag");
+    if (!ifNoneMatch || typeof etag !== "string" || !["GET", "HEAD"].includes(res.req.method ?? "")) {
+      return false;
+    }
+    if ((res.statusCode < 200 || res.statusCode >= 300) && res.statusCode !== 304) {
+      return false;
+    }
+    // Weak comparison, W/ prefixes are ignored
+    const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+    return ifNoneMatch.trim() === "*" || ifNoneMatch.split(",").some((tag) => opaque(tag) === opaque(etag));
+  }
+
+  redirect(res: ServerResponse, statusCode: number, url: string): void {
+    res.statusCode = statusCode;
+    res.setHeader("Location", url);
+    res.end();
+  }
+
+  render(): Promise<string> {
+    return Promise.reject(new Error("NodeHttpAdapter does not render views, use ExpressAdapter with a view engine"));
+  }
+
+  listen(port: number, callback?: () => void): Server {
+    return this.server.listen(port, callback);
+  }
+
+  getRequestListener(): (req: IncomingMessage, res: ServerResponse) => void {
+    return (req, res) => this.dispatch(req, res);
+  }
+
+  // dispatch method
+  // Used to run a request through the middlewares, then the handlers of the routes it matches in order
+  // Errors skip to the error handler of the route that raised them, unhandled ones end with a 500
+  private dispatch(incoming: IncomingMessage, res: ServerResponse): void {
+    const url = incoming.url || "/";
+    const search = url.indexOf("?");
+    const req = Object.assign(incoming, { originalUrl: url, params: {}, query: search === -1 ? {} : parseQuery(url.slice(search + 1)) }) as NodeHttpRequest;
+    let index = 0;
+    const nextLayer = (error?: unknown): void => {
+      while (index < this.layers.length) {
+        const layer = this.layers[index++];
+        if (error !== undefined) {
+          continue;
+        }
+        if (!layer.route) {
+          return this.runHandlers(layer.handlers, undefined, req, res, nextLayer);
+        }
+        const params = this.matchRoute(layer.route, req);
+        if (params) {
+          req.params = params;
+          req.route = { path: layer.route.path };
+          return this.runHandlers(layer.handlers, layer.errorHandler, req, res, nextLayer);
+        }
+      }
+      this.finish(error, req, res);
+    };
+    nextLayer();
+  }
+
+  // runHandlers method
+  // Used to call handlers one after the other, each one calling next to pass on to the following one
+  private runHandlers(handlers: NodeHttpHandler[], errorHandler: NodeHttpErrorHandler | undefined, req: NodeHttpRequest, res: ServerResponse, done: (error?: unknown) => void): void {
+    let index = 0;
+    const next = (error?: unknown): void => {
+      if (error === "route") {
+        return done();
+      }
+      if (error !== undefined) {
+        if (!errorHandler) {
+          return done(error);
+        }
+        const handleError = errorHandler;
+        errorHandler = undefined;
+        return this.call(() => handleError(error, req, res, done), done);
+      }
+      const handler = handlers[index++];
+      if (!handler) {
+        return done();
+      }
+      this.call(() => handler(req, res, next), next);
+    };
+    next();
+  }
+
+  private call(handler: () => unknown, onError: (error: unknown) => void): void {
+    try {
+      handler();
+    } catch (error) {
+      onError(error);
+    }
+  }
+
+  // matchRoute method
+  // Used to get the params of a request matching a route, GET routes also answer HEAD requests
+  private matchRoute(route: { method: string; pattern: RegExp; keys: string[] }, req: NodeHttpRequest): Record<string, string> | undefined {
+    const method = this.getRequestMethod(req).toLowerCase();
+    if (method !== route.method && !(method === "head" && route.method === "get")) {
+      return undefined;
+    }
+    const match = route.pattern.exec((req.url || "/").split("?")[0]);
+    if (!match) {
+      return undefined;
+    }
+    const params: Record<string, string> = {};
+    route.keys.forEach((key, index) => {
+      const value = match[index + 1];
+      if (value !== undefined) {
+        try {
+          params[key] = decodeURIComponent(value);
+        } catch {
+          params[key] = value;
+        }
+      }
+    });
+    return params;
+  }
+
+  // finish method
+  // Used to answer the requests no route handled: a 404, or a 500 when an error was not handled
+  private finish(error: unknown, req: NodeHttpRequest, res: ServerResponse): void {
+    if (res.headersSent) {
+      req.socket.destroy();
+      return;
+    }
+    if (error !== undefined) {
+      this.status(res, 500);
+      this.reply(res, { statusCode: 500, message: "Internal server error" });
+      return;
+    }
+    this.status(res, 404);
+    this.reply(res, { statusCode: 404, message: `Cannot ${req.method} ${req.originalUrl.split("?")[0]}` });
+  }
+}
+
+// Container class
+// Used to register and resolve services
+// Number of promises given to inversify by async factories, and by request-scoped instances still being created
+// Inversify refuses to return them from a synchronous resolution, see resolveDependency
+let asyncResolutions = 0;
+
+// trackAsync function
+// Used to count the values of factories that are promises, returning the value as is
+function trackAsync<T>(value: T): T {
+  if (value instanceof Promise) {
+    asyncResolutions++;
+  }
+  return value;
+}
+
+// resolveDependency function
+// Used to resolve a token synchronously when possible, falling back to async resolution
+// when the token, or something it depends on, comes from an async factory not awaited yet
+// Any other error, e.g. thrown by a constructor, is rethrown as is rather than resolving the token again
+function resolveDependency(container: interfaces.Container, token: Token): unknown {
+  const before = asyncResolutions;
+  try {
+    return container.get(token);
+  } catch (error) {
+    // The synchronous resolution reached a promise
+    if (asyncResolutions !== before) {
+      return container.getAsync(token);
+    }
+    throw error;
+  }
+}
+
+// Each module has its own container, a child of the application container
+// The application container holds the exports of global modules
+class Container {
+  public inversifyContainer: InversifyContainer;
+  private overrides = new Map<Token, OverrideProvider>();
+  private appliedOverrides = new Set<Token>();
+  private scopes = new Map<Token, Scope>();
+  private aliases = new Map<Token, Token>();
+  private externals = new Map<Token, Container>();
+  private classes = new Map<Token, Constructor>();
+  private factories = new Map<Token, { factory: (...args: any[]) => any; inject: Token[] }>();
+  private validated = new Set<Token>();
+
+  // name: The module the container belongs to, used in error messages
+  constructor(private parent?: Container, readonly name = "the application") {
+    this.inversifyContainer = parent ? parent.inversifyContainer.createChild() : new InversifyContainer();
+  }
+
+  // override method
+  // Used to replace the provider of a token, the override is registered in place of the original
+  override<T>(token: Token<T>, provider: OverrideProvider<T>): void {
+    this.overrides.set(token, provider);
+  }
+
+  // register method
+  // Used to register a provider with the container
+  register<T>(provider: Provider<T>): void {
+    const token = typeof provider === "function" ? provider : provider.provide;
+    if (this.getOverride(token)) {
+      this.registerOverride(token);
+    } else if (typeof provider === "function") {
+      this.bind(provider, provider);
+    } else if ("useClass" in provider) {
+      this.bind(provider.provide, provider.useClass, provider.scope);
+    } else if ("useFactory" in provider) {
+      this.bindFactory(provider.provide, provider.useFactory, provider.inject, provider.scope);
+    } else if ("useValue" in provider) {
+      this.inversifyContainer.bind(provider.provide).toConstantValue(provider.useValue);
+    } else if ("useExisting" in provider) {
+      this.inversifyContainer.bind(provider.provide).toService(provider.useExisting);
+      this.aliases.set(provider.provide, provider.useExisting);
+    } else {
+      throw new Error("Invalid provider configuration");
+    }
+  }
+
+  // registerOverride method
+  // Used to bind an overridden token once, whether or not a module also provides it
+  registerOverride(token: Token): void {
+    const override = this.getOverride(token);
+    if (!override || this.hasOwn(token)) {
+      return;
+    }
+    this.markOverrideApplied(token);
+    if ("useClass" in override) {
+      this.bind(token, override.useClass);
+    } else if ("useValue" in override) {
+      this.inversifyContainer.bind(token).toConstantValue(override.useValue);
+    } else {
+      this.bindFactory(token, override.useFactory.factory, override.useFactory.inject);
+    }
+  }
+
+  // registerOverrides method
+  // Used to bind the overrides whose tokens were not provided by any module
+  registerOverrides(): void {
+    this.overrides.forEach((_, token) => !this.appliedOverrides.has(token) && this.registerOverride(token));
+  }
+
+  // isOverridden method
+  // Used to check if a token is replaced by an override, bound once the modules are registered
+  isOverridden(token: Token): boolean {
+    return this.getOverride(token) !== undefined;
+  }
+
+  private getOverride(token: Token): OverrideProvider | undefined {
+    return this.overrides.get(token) ?? this.parent?.getOverride(token);
+  }
+
+  private markOverrideApplied(token: Token): void {
+    if (this.overrides.has(token)) {
+      this.appliedOverrides.add(token);
+    } else {
+      this.parent?.markOverrideApplied(token);
+    }
+  }
+
+  // bindExternal method
+  // Used to make a token of another module's container resolvable in this one
+  // Resolution is delegated, so the scope of the original provider still applies
+  bindExternal(token: Token, source: Container): void {
+    if (this.hasOwn(token)) {
+      return;
+    }
+    this.inversifyContainer.bind(token).toDynamicValue(() => resolveDependency(source.inversifyContainer, token));
+    this.externals.set(token, source);
+  }
+
+  // bindFactory method
+  // Used to bind a token to the result of a factory called with its resolved dependencies
+  // When the factory or one of its dependencies is async, the token resolves to a promise
+  // until it is awaited with resolveAsync (done for singletons when modules are registered)
+  private bindFactory<T>(token: Token<T>, factory: (...args: any[]) => T | Promise<T>, inject: Token[] = [], scope: Scope = "Singleton"): void {
+    const create = (ctx: interfaces.Context) => {
+      const dependencies = inject.map((dependency) => resolveDependency(ctx.container, dependency));
+      return dependencies.some((dependency) => dependency instanceof Promise)
+        ? Promise.all(dependencies).then((resolved) => factory(...resolved))
+        : factory(...dependencies);
+    };
+    this.factories.set(token, { factory, inject });
+    this.scopes.set(token, scope);
+    if (scope === "Request") {
+      this.bindPerRequest(token, create);
+    } else if (scope === "Singleton") {
+      // Cached here rather than by inversify, which turns a failed async singleton into an unhandled rejection
+      let cached: { value: unknown } | undefined;
+      this.inversifyContainer.bind(token).toDynamicValue((ctx) => {
+        if (!cached) {
+          const value = create(ctx);
+          cached = { value };
+          if (value instanceof Promise) {
+            value.then(
+              (resolved) => (cached = { value: resolved }),
+              () => (cached = undefined)
+            );
+          }
+        }
+        return trackAsync(cached.value as T);
+      });
+    } else {
+      this.applyScope(this.inversifyContainer.bind(token).toDynamicValue((ctx) => trackAsync(create(ctx))) as interfaces.BindingInSyntax<T>, scope);
+    }
+  }
+
+  // bind method
+  // Used to bind a token to a target class with a specific scope
+  private bind<T>(token: Token<T>, target: Constructor<T>, scope?: Scope): void {
+    const resolvedScope = scope || this.getClassScope(target);
+    this.classes.set(token, target);
+    this.scopes.set(token, resolvedScope);
+    if (resolvedScope === "Request") {
+      // The class is bound to a private token, instances are created through it once per request
+      const instanceToken = Symbol(this.getTokenName(token));
+      this.inversifyContainer.bind(instanceToken).to(target).inTransientScope();
+      this.bindPerRequest(token, (ctx) => resolveDependency(ctx.container, instanceToken));
+    } else {
+      this.applyScope(this.inversifyContainer.bind(token).to(target), resolvedScope);
+    }
+    this.bindForwardReferences(target);
+  }
+
+  // bindForwardReferences method
+  // Used to bind the @Inject(forwardRef(...)) parameters and properties of a class to proxies resolving the dependency in this container
+  private bindForwardReferences(target: Constructor): void {
+    const injections: InjectionMetadata[] = Reflect.getMetadata("injections", target) || [];
+    const properties: PropertyInjectionMetadata[] = Reflect.getMetadata("properties", target) || [];
+    for (const { token } of [...injections, ...properties]) {
+      if (isForwardReference(token) && !this.hasOwn(getForwardToken(token))) {
+        this.inversifyContainer.bind(getForwardToken(token)).toDynamicValue(() => createForwardProxy(token.forwardRef(), () => this.resolve(token.forwardRef())));
+      }
+    }
+  }
+
+  // bindPerRequest method
+  // Used to bind a token to one instance per request, kept in the context of the request being handled
+  // Async instances are stored as promises until they resolve, so they are only created once
+  private bindPerRequest(token: Token, create: (ctx: interfaces.Context) => unknown): void {
+    const key = Symbol(this.getTokenName(token));
+    this.inversifyContainer.bind(token).toDynamicValue((ctx) => {
+      const context = RequestContext.current();
+      if (!context) {
+        throw new Error(`${this.getTokenName(token)} is request-scoped and can only be resolved while handling a request`);
+      }
+      if (!context.instances.has(key)) {
+        const instance = create(ctx);
+        context.instances.set(key, instance);
+        if (instance instanceof Promise) {
+          instance.then(
+            (resolved) => context.instances.set(key, resolved),
+            () => context.instances.delete(key)
+          );
+        }
+      }
+      return trackAsync(context.instances.get(key));
+    });
+  }
+
+  // promoteRequestScoped method
+  // Used to make the singletons that depend on a request-scoped provider request-scoped themselves,
+  // so that they never hold on to the instances of a single request
+  // Called once every module is loaded, before singletons are created
+  promoteRequestScoped(): void {
+    for (const [token, target] of this.classes) {
+      if (this.scopes.get(token) === "Singleton" && this.isRequestScoped(token)) {
+        this.inversifyContainer.unbind(token);
+        this.bind(token, target, "Request");
+      }
+    }
+    for (const [token, { factory, inject }] of this.factories) {
+      if (this.scopes.get(token) === "Singleton" && this.isRequestScoped(token)) {
+        this.inversifyContainer.unbind(token);
+        this.bindFactory(token, factory, inject, "Request");
+      }
+    }
+  }
+
+  // isRequestScoped method
+  // Used to check if a token is request-scoped, or depends on a request-scoped token
+  isRequestScoped(token: Token, visited = new Set<Token>()): boolean {
+    if (!this.hasOwn(token)) {
+      return this.parent?.isRequestScoped(token, visited) ?? false;
+    }
+    const source = this.externals.get(token);
+    if (source) {
+      return source.isRequestScoped(token, visited);
+    }
+    const aliased = this.aliases.get(token);
+    if (aliased) {
+      return this.isRequestScoped(aliased, visited);
+    }
+    // Guards against dependency cycles
+    if (visited.has(token)) {
+      return false;
+    }
+    visited.add(token);
+    return this.scopes.get(token) === "Request" || this.getDependencies(token).some((dependency) => this.isRequestScoped(dependency, visited));
+  }
+
+  // validate method
+  // Used to check that a provider and everything it depends on can be created, before any of them is
+  // Throws an error naming the provider, its parameters and the module missing one of them,
+  // e.g. "Cannot resolve UserService (?, ConfigService) at index 0 in UserModule"
+  validate(token: Token, path: { container: Container; token: Token }[] = []): void {
+    if (!this.hasOwn(token)) {
+      this.parent?.validate(token, path);
+      return;
+    }
+    const source = this.externals.get(token);
+    if (source) {
+      source.validate(token, path);
+      return;
+    }
+    const cycleStart = path.findIndex((entry) => entry.container === this && entry.token === token);
+    if (cycleStart !== -1) {
+      const cycle = [...path.slice(cycleStart).map((entry) => entry.token), token].map((entry) => this.getTokenName(entry));
+      throw new Error(`Circular dependency between providers: ${cycle.join(" -> ")}, inject one of them with @Inject(forwardRef(() => ${cycle[1]}))`);
+    }
+    if (this.validated.has(token)) {
+      return;
+    }
+
+    const dependencies = this.getInjections(token);
+    dependencies.forEach(({ token: dependency, optional, forward, property }, index) => {
+      const fail = (reason: string) => {
+        if (property !== undefined) {
+          return new Error(`Cannot resolve ${this.getTokenName(token)}.${String(property)} in ${this.name}: ${reason}`);
+        }
+        const params = dependencies
+          .filter((entry) => entry.property === undefined)
+          .map((entry, entryIndex) => (entryIndex === index ? "?" : entry.token ? this.getTokenName(entry.token) : "undefined"));
+        return new Error(`Cannot resolve ${this.getTokenName(token)} (${params.join(", ")}) at index ${index} in ${this.name}: ${reason}`);
+      };
+      if (dependency === undefined) {
+        throw fail("the dependency is undefined, which happens when files import each other, inject it with @Inject(forwardRef(() => ...))");
+      }
+      if (!this.has(dependency)) {
+        if (optional) {
+          return;
+        }
+        throw fail(`${this.getTokenName(dependency)} is neither a provider of ${this.name} nor exported by a module it imports`);
+      }
+      // A forward reference is resolved on first use, it may depend back on the provider
+      if (!forward) {
+        this.validate(dependency, [...path, { container: this, token }]);
+      }
+    });
+    this.validated.add(token);
+  }
+
+  // getInjections method
+  // Used to get what a provider is created with, by parameter index: constructor parameters, factory inject tokens or the aliased token,
+  // followed by its injected properties
+  private getInjections(token: Token): { token?: Token; optional: boolean; forward: boolean; property?: string | symbol }[] {
+    const aliased = this.aliases.get(token);
+    if (aliased) {
+      return [{ token: aliased, optional: false, forward: false }];
+    }
+    const factory = this.factories.get(token);
+    if (factory) {
+      return factory.inject.map((dependency) => ({ token: dependency, optional: false, forward: false }));
+    }
+    const target = this.classes.get(token);
+    if (!target) {
+      return [];
+    }
+    const paramTypes: (Token | undefined)[] = Reflect.getMetadata("design:paramtypes", target) || [];
+    const injections: InjectionMetadata[] = Reflect.getMetadata("injections", target) || [];
+    const optional: number[] = Reflect.getMetadata("optional", target) || [];
+    const properties: PropertyInjectionMetadata[] = Reflect.getMetadata("properties", target) || [];
+    const dependencies: { token?: Token; optional: boolean; forward: boolean }[] = paramTypes.map((type) => ({ token: type, optional: false, forward: false }));
+    for (const { index, token } of injections) {
+      dependencies[index] = isForwardReference(token) ? { token: token.forwardRef(), optional: false, forward: true } : { token, optional: false, forward: false };
+    }
+    return [
+      ...Array.from(dependencies, (dependency, index) => ({ ...(dependency || { forward: false }), optional: optional.includes(index) })),
+      ...properties.map(({ property, token }) => ({
+        ...(isForwardReference(token) ? { token: token.forwardRef(), forward: true } : { token, forward: false }),
+        optional: Reflect.getMetadata("optional", target.prototype, property) === true,
+        property,
+      })),
+    ];
+  }
+
+  // getDependencies method
+  // Used to get the tokens a provider is created with: constructor parameters or factory inject tokens
+  private getDependencies(token: Token): Token[] {
+    return this.getInjections(token)
+      .map((dependency) => dependency.token)
+      .filter(Boolean) as Token[];
+  }
+
+  // getCreationDependencies method
+  // Used to get the tokens that are resolved when a provider is created, forward references being resolved on first use
+  getCreationDependencies(token: Token): Token[] {
+    return this.getInjections(token)
+      .filter((dependency) => !dependency.forward)
+      .map((dependency) => dependency.token)
+      .filter(Boolean) as Token[];
+  }
+
+  // getOwner method
+  // Used to find the container a token is registered in, following the modules it is imported from and the parent
+  getOwner(token: Token): Container | undefined {
+    if (!this.hasOwn(token)) {
+      return this.parent?.getOwner(token);
+    }
+    return this.externals.get(token)?.getOwner(token) ?? this;
+  }
+
+  private getTokenName(token: Token): string {
+    return typeof token === "function" ? token.name : String(token);
+  }
+
+  // getScope method
+  // Used to get the scope a token was bound with, values are singletons
+  getScope(token: Token): Scope {
+    const aliased = this.aliases.get(token);
+    return aliased ? this.getScope(aliased) : this.scopes.get(token) || "Singleton";
+  }
+
+  private applyScope<T>(binding: interfaces.BindingInSyntax<T>, scope: Scope): void {
+    switch (scope) {
+      case "Transient":
+        binding.inTransientScope();
+        break;
+      default:
+        binding.inSingletonScope();
+    }
+  }
+
+  // getClassScope method
+  // Used to get the scope of a class
+  private getClassScope(target: Constructor): Scope {
+    return Reflect.getMetadata("scope", target) || "Singleton";
+  }
+
+  resolve<T>(token: Token<T>): T {
+    return this.inversifyContainer.get<T>(token);
+  }
+
+  // resolveAsync method
+  // Used to resolve a token whose provider, or one of its dependencies, is async
+  resolveAsync<T>(token: Token<T>): Promise<T> {
+    return this.inversifyContainer.getAsync<T>(token);
+  }
+
+  has(token: Token): boolean {
+    return this.inversifyContainer.isBound(token);
+  }
+
+  // hasOwn method
+  // Used to check if a token is bound in this container, ignoring the parent
+  hasOwn(token: Token): boolean {
+    return this.inversifyContainer.isCurrentBound(token);
+  }
+}
+
+// Discovery
+// DiscoveredClass: A provider, controller or gateway of a registered module, instance is only set for singletons
+// DiscoveredMethod: A method of a provider, controller or gateway with the metadata set by its decorators
+// metadata: Every metadata set by decorators, by metadata key
+interface DiscoveredClass {
+  token: Token;
+  name: string;
+  metatype?: Constructor;
+  module: Constructor;
+  scope: Scope;
+  instance?: any;
+  metadata: Record<string | symbol, unknown>;
+}
+
+interface DiscoveredMethod {
+  parent: DiscoveredClass;
+  methodName: string;
+  metadata: Record<string | symbol, unknown>;
+}
+
+interface DiscoveredModule {
+  metatype: Constructor;
+  global: boolean;
+  providers: DiscoveredClass[];
+  controllers: DiscoveredClass[];
+  gateways: DiscoveredClass[];
+  exports: Token[];
+}
+
+// DiscoveryService class
+// Injectable, lists the registered modules, providers, controllers, gateways and routes, e.g. for a plugin to find its decorated methods
+// Meant to be used once the modules are registered, e.g. in onModuleInit
+class DiscoveryService {
+  constructor(private getModuleInstances: () => ModuleInstance[], private getRouteTable: () => RouteInfo[]) {}
+
+  // getModules method
+  // Used to list the registered modules, in the order they were registered
+  getModules(): DiscoveredModule[] {
+    return this.getModuleInstances().map(({ metatype, global, container, providers, controllers, gateways, exports }) => ({
+      metatype,
+      global,
+      providers: [...providers].map((token) => this.discover(token, container, metatype)),
+      controllers: controllers.map((token) => this.discover(token, container, metatype)),
+      gateways: gateways.map((token) => this.discover(token, container, metatype)),
+      exports: [...exports],
+    }));
+  }
+
+  // getProviders method
+  // Used to list the providers of every module
+  getProviders(): DiscoveredClass[] {
+    return this.getModules().flatMap((module) => module.providers);
+  }
+
+  // getControllers method
+  // Used to list the controllers of every module
+  getControllers(): DiscoveredClass[] {
+    return this.getModules().flatMap((module) => module.controllers);
+  }
+
+  // getGateways method
+  // Used to list the WebSocket gateways of every module
+  getGateways(): DiscoveredClass[] {
+    return this.getModules().flatMap((module) => module.gateways);
+  }
+
+  // getRoutes method
+  // Used to list the route handlers, in the order express matches them
+  getRoutes(): RouteInfo[] {
+    return this.getRouteTable();
+  }
+
+  // getMethods method
+  // Used to list the methods of the providers, controllers and gateways, only the ones with the metadata key when given
+  getMethods(metadataKey?: string | symbol): DiscoveredMethod[] {
+    return [...this.getProviders(), ...this.getControllers(), ...this.getGateways()].flatMap((parent) =>
+      parent.metatype
+        ? getMethodNames(parent.metatype.prototype)
+            .map((methodName) => ({ parent, methodName, metadata: getMetadataRecord(parent.metatype!.prototype, methodName) }))
+            .filter(({ metadata }) => (metadataKey === undefined ? Reflect.ownKeys(metadata).length > 0 : metadataKey in metadata))
+        : []
+    );
+  }
+
+  private discover(token: Token, container: Container, module: Constructor): DiscoveredClass {
+    const scope = container.getScope(token);
+    const instance = scope === "Singleton" ? container.resolve<any>(token) : undefined;
+    const metatype: Constructor | undefined = instance && typeof instance === "object" ? instance.constructor : typeof token === "function" ? (token as Constructor) : undefined;
+    return {
+      token,
+      name: typeof token === "function" ? token.name : String(token),
+      metatype,
+      module,
+      scope,
+      instance,
+      metadata: metatype ? getMetadataRecord(metatype) : {},
+    };
+  }
+}
+
+export {
+  HttpException,
+  BadRequestException,
+  UnauthorizedException,
+  ForbiddenException,
+  NotFoundException,
+  MethodNotAllowedException,
+  NotAcceptableException,
+  RequestTimeoutException,
+  ConflictException,
+  GoneException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+  UnprocessableEntityException,
+  TooManyRequestsException,
+  InternalServerErrorException,
+  NotImplementedException,
+  BadGatewayException,
+  ServiceUnavailableException,
+  GatewayTimeoutException,
+  ValidationException,
+  Catch,
+  APP_GUARD,
+  APP_FILTER,
+  APP_PIPE,
+  APP_INTERCEPTOR,
+  GLOBAL_ENHANCERS,
+  UseFilters,
+  UseGuards,
+  Module,
+  Global,
+  isDynamicModule,
+  Controller,
+  VERSION_NEUTRAL,
+  Version,
+  compileHostPattern,
+  compileRoutePattern,
+  normalizeRoutePath,
+  getMethodNames,
+  getMetadataRecord,
+  createMethodDecorator,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Patch,
+  HttpCode,
+  Header,
+  Redirect,
+  Render,
+  Serialize,
+  ResponseSchema,
+  StreamableFile,
+  PIPED_PARAM_TYPES,
+  addParamMetadata,
+  createRouteParamDecorator,
+  Param,
+  Body,
+  Query,
+  Headers,
+  Cookies,
+  HostParam,
+  Req,
+  Ip,
+  Session,
+  createParamDecorator,
+  parseCookies,
+  Res,
+  createDecorator,
+  Injectable,
+  forwardRef,
+  isForwardReference,
+  Inject,
+  Optional,
+  UseMiddleware,
+  UsePipes,
+  ExecutionContextHost,
+  Reflector,
+  REQUEST,
+  RequestContext,
+  UseInterceptors,
+  UseInterceptor,
+  ZodValidationPipe,
+  ParseIntPipe,
+  ParseFloatPipe,
+  ParseBoolPipe,
+  ParseUUIDPipe,
+  DefaultValuePipe,
+  ParseEnumPipe,
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiSecurity,
+  ApiBearerAuth,
+  zodToJsonSchema,
+  OpenApiGenerator,
+  ConsoleLogger,
+  Logger,
+  OnEvent,
+  EventEmitter,
+  HttpAdapterHost,
+  ExpressAdapter,
+  NodeHttpAdapter,
+  Container,
+  DiscoveryService,
+};
+
+export type {
+  RouteMetadata,
+  ResponseMetadata,
+  RouteDefinition,
+  RouteInfo,
+  ModuleMetadata,
+  DynamicModule,
+  ModuleImport,
+  ModuleInstance,
+  Constructor,
+  Scope,
+  Token,
+  OverrideProvider,
+  Provider,
+  HttpExceptionOptions,
+  ValidationErrorDetail,
+  ExceptionFilter,
+  CanActivate,
+  OnModuleInit,
+  OnApplicationBootstrap,
+  BeforeApplicationShutdown,
+  OnModuleDestroy,
+  OnRequestDispose,
+  ShutdownHooksOptions,
+  ControllerOptions,
+  VersionValue,
+  VersioningOptions,
+  SerializeOptions,
+  SerializationGroups,
+  SerializeMetadata,
+  StreamableFileOptions,
+  ParamMetadata,
+  ForwardReference,
+  PipeFunction,
+  ArgumentMetadata,
+  PipeTransform,
+  Pipe,
+  ExecutionContext,
+  WsArgumentsHost,
+  CallHandler,
+  Interceptor,
+  ApiOperationOptions,
+  ApiResponseOptions,
+  JsonSchema,
+  OpenApiOptions,
+  OpenApiDocument,
+  LogLevel,
+  LogEntry,
+  LoggerService,
+  ConsoleLoggerOptions,
+  OnEventOptions,
+  EventListenerMetadata,
+  FrameworkRequest,
+  AdapterHandler,
+  AdapterErrorHandler,
+  HttpAdapter,
+  NodeHttpRequest,
+  NodeHttpAdapterOptions,
+  DiscoveredClass,
+  DiscoveredMethod,
+  DiscoveredModule,
+};
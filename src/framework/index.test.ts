@@ -0,0 +1,1878 @@
+import { afterAll, afterEach, beforeAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { IncomingMessage } from "http";
+import { connect, type AddressInfo } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Duplex } from "stream";
+import { z } from "zod";
+import {
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+  APP_GUARD,
+  BadRequestException,
+  Body,
+  CacheControl,
+  CacheInterceptor,
+  CacheKey,
+  CacheManager,
+  CacheModule,
+  CacheTTL,
+  Catch,
+  ConfigModule,
+  ConfigService,
+  ConfigValidationError,
+  ConflictException,
+  ConnectedSocket,
+  ConsoleLogger,
+  Controller,
+  createDecorator,
+  DiscoveryService,
+  EventEmitter,
+  forwardRef,
+  Get,
+  Global,
+  GoneException,
+  Header,
+  HttpCode,
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  ManualClock,
+  MemoryStore,
+  MemoryThrottlerStorage,
+  MessageBody,
+  MiniFramework,
+  Module,
+  NodeHttpAdapter,
+  NotFoundException,
+  OnEvent,
+  Optional,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Reflector,
+  Req,
+  REQUEST,
+  RequestContext,
+  SchedulerRegistry,
+  SkipThrottle,
+  Serialize,
+  Sse,
+  SubscribeMessage,
+  Test,
+  Throttle,
+  ThrottlerGuard,
+  ThrottlerModule,
+  UseGuards,
+  UseInterceptors,
+  UsePipes,
+  Version,
+  WebSocketGateway,
+  WsClient,
+  WsException,
+  WsServer,
+  type CanActivate,
+  type ConfigModuleOptions,
+  type DynamicModule,
+  type ExceptionFilter,
+  type ExecutionContext,
+  type LogEntry,
+  type VersioningOptions,
+} from "./index";
+
+Logger.overrideLogger({ write: () => {} });
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const seenArguments: string[] = [];
+
+@Controller("/users")
+class UserController {
+  @Get()
+  list(@Query("page") page?: string) {
+    return { page: page ?? "1" };
+  }
+
+  @Get("/:id")
+  get(@Param("id", ParseIntPipe) id: number) {
+    if (id === 0) {
+      throw new NotFoundException("User not found");
+    }
+    return { id };
+  }
+
+  @Post()
+  create(@Body(z.object({ name: z.string() })) user: { name: string }) {
+    return user;
+  }
+
+  @Post("/:id/archive")
+  @HttpCode(202)
+  @Header("X-Archived", "true")
+  archive(@Param("id", ParseIntPipe) id: number) {
+    if (id === 0) {
+      throw new NotFoundException("User not found");
+    }
+    return { id };
+  }
+
+  @Get("/hang/forever")
+  hang() {
+    return new Promise(() => {});
+  }
+}
+
+@Controller("/piped")
+@UsePipes({
+  transform: (value: unknown, metadata: { type: string }) => {
+    seenArguments.push(metadata.type);
+    return value;
+  },
+})
+class PipedController {
+  @Get()
+  get(@Query("q") q: string, @Req() req: IncomingMessage) {
+    return { q, method: req.method };
+  }
+}
+
+@WebSocketGateway({ path: "/echo" })
+@Injectable()
+class EchoGateway {
+  @SubscribeMessage("echo")
+  echo(@MessageBody() data: unknown, @ConnectedSocket() client: WsClient) {
+    return { data, rooms: client.rooms.size };
+  }
+
+  @SubscribeMessage("delay")
+  async delay(@MessageBody() ms: number) {
+    await new Promise((resolve) => setTimeout(resolve, ms));
+    return ms;
+  }
+}
+
+@WebSocketGateway({ path: "/private", origins: ["https://example.com"] })
+@Injectable()
+class PrivateGateway {
+  @SubscribeMessage("limited")
+  @UseGuards(ThrottlerGuard)
+  @Throttle({ default: { limit: 1 } })
+  limited() {
+    return "ok";
+  }
+}
+
+@WebSocketGateway({ path: "/pending" })
+@Injectable()
+class PendingGateway {
+  async handleConnection(client: WsClient) {
+    client.join("lobby");
+    await sleep(100);
+    throw new WsException("Refused");
+  }
+}
+
+@Module({
+  imports: [ThrottlerModule.forRoot([{ ttl: 60_000, limit: 10 }])],
+  controllers: [UserController, PipedController],
+  gateways: [EchoGateway, PrivateGateway, PendingGateway],
+})
+class AppModule {}
+
+describe("HTTP routing", () => {
+  for (const [name, createAdapter] of [
+    ["express", () => undefined],
+    ["node:http", () => new NodeHttpAdapter()],
+  ] as const) {
+    describe(name, () => {
+      let app: MiniFramework;
+
+      const createApp = async () => {
+        app = new MiniFramework(createAdapter());
+        await app.registerModule(AppModule);
+        return app;
+      };
+
+      afterEach(() => app.close());
+
+      test("routes requests with route and query parameters", async () => {
+        await createApp();
+        expect((await app.inject({ url: "/users?page=3" })).json()).toEqual({ page: "3" });
+        expect((await app.inject({ url: "/users/42" })).json()).toEqual({ id: 42 });
+      });
+
+      test("validates the body and the parameters", async () => {
+        await createApp();
+        expect((await app.inject({ method: "POST", url: "/users", body: { name: "Ada" } })).json()).toEqual({ name: "Ada" });
+        expect((await app.inject({ method: "POST", url: "/users", body: { name: 1 } })).statusCode).toBe(400);
+        expect((await app.inject({ url: "/users/abc" })).statusCode).toBe(400);
+      });
+
+      test("answers exceptions and unknown routes with JSON", async () => {
+        await createApp();
+        const notFound = await app.inject({ url: "/users/0" });
+        expect(notFound.statusCode).toBe(404);
+        expect(notFound.json().message).toBe("User not found");
+        expect((await app.inject({ url: "/missing" })).statusCode).toBe(404);
+      });
+
+      test("applies @HttpCode and @Header to successful responses only", async () => {
+        await createApp();
+        const archived = await app.inject({ method: "POST", url: "/users/1/archive" });
+        expect(archived.statusCode).toBe(202);
+        expect(archived.headers["x-archived"]).toBe("true");
+        const notFound = await app.inject({ method: "POST", url: "/users/0/archive" });
+        expect(notFound.statusCode).toBe(404);
+        expect(notFound.headers["x-archived"]).toBeUndefined();
+      });
+
+      test("answers matching If-None-Match requests with a 304", async () => {
+        await createApp();
+        const response = await app.inject({ url: "/users/42" });
+        const etag = response.headers["etag"] as string;
+        expect(etag).toMatch(/^W\/"/);
+        const cached = await app.inject({ url: "/users/42", headers: { "if-none-match": etag } });
+        expect(cached.statusCode).toBe(304);
+        expect(cached.body).toBe("");
+        expect((await app.inject({ url: "/users/43", headers: { "if-none-match": etag } })).statusCode).toBe(200);
+        expect((await app.inject({ method: "POST", url: "/users", body: { name: "Ada" }, headers: { "if-none-match": "*" } })).statusCode).toBe(200);
+      });
+
+      test("runs controller pipes only on the arguments read from the input", async () => {
+        await createApp();
+        seenArguments.length = 0;
+        expect((await app.inject({ url: "/piped?q=x" })).json()).toEqual({ q: "x", method: "GET" });
+        expect(seenArguments).toEqual(["query"]);
+      });
+    });
+  }
+});
+
+describe("inject", () => {
+  test("rejects when no response is sent within the timeout", async () => {
+    const app = new MiniFramework();
+    await app.registerModule(AppModule);
+    await expect(app.inject({ url: "/users/hang/forever", timeout: 50 })).rejects.toThrow("within 50ms");
+    await app.close();
+  });
+
+  test("dispatches requests through a testing module", async () => {
+    const moduleRef = await Test.createTestingModule({ imports: [AppModule] }).compile();
+    expect((await moduleRef.request({ url: "/users/7" })).json()).toEqual({ id: 7 });
+  });
+
+  test("overrides a guard that is not a provider", async () => {
+    @Injectable()
+    class SessionService {}
+
+    @Injectable()
+    class AuthGuard {
+      constructor(@Inject(SessionService) private sessions: SessionService) {}
+
+      canActivate() {
+        return false;
+      }
+    }
+
+    @Controller("/account")
+    @UseGuards(AuthGuard)
+    class AccountController {
+      @Get()
+      get() {
+        return { ok: true };
+      }
+    }
+
+    const moduleRef = await Test.createTestingModule({ controllers: [AccountController] })
+      .overrideGuard(AuthGuard)
+      .useValue({ canActivate: () => true })
+      .compile();
+    expect((await moduleRef.request({ url: "/account" })).json()).toEqual({ ok: true });
+  });
+
+  test("compiles a testing module on another adapter", async () => {
+    const moduleRef = await Test.createTestingModule({ imports: [AppModule] }).compile({ httpAdapter: new NodeHttpAdapter() });
+    expect(moduleRef.app.getHttpAdapter()).toBeInstanceOf(NodeHttpAdapter);
+    expect((await moduleRef.request({ url: "/users?page=2" })).json()).toEqual({ page: "2" });
+  });
+});
+
+describe("global enhancers and exceptions", () => {
+  @Injectable()
+  class ApiKeys {
+    isValid(key?: string) {
+      return key === "secret";
+    }
+  }
+
+  @Injectable()
+  class ApiKeyGuard implements CanActivate {
+    constructor(@Inject(ApiKeys) private keys: ApiKeys) {}
+
+    canActivate(context: ExecutionContext) {
+      return this.keys.isValid(context.getRequest().headers["x-api-key"] as string | undefined);
+    }
+  }
+
+  @Catch(ConflictException)
+  class ConflictFilter implements ExceptionFilter {
+    catch(exception: ConflictException, context: ExecutionContext) {
+      context.getResponse().status(409).json({ conflict: exception.message });
+    }
+  }
+
+  @Controller("/orders")
+  class OrderController {
+    @Get()
+    list(@Query("q") q: string) {
+      return { q };
+    }
+
+    @Post()
+    create() {
+      throw new ConflictException("Order exists");
+    }
+
+    @Get("/gone")
+    gone() {
+      throw new GoneException();
+    }
+
+    @Get("/broken")
+    broken() {
+      throw new Error("The database is down");
+    }
+  }
+
+  @Module({ providers: [ApiKeys, { provide: APP_GUARD, useClass: ApiKeyGuard }], controllers: [OrderController] })
+  class OrderModule {}
+
+  let app: MiniFramework;
+  const headers = { "x-api-key": "secret" };
+
+  beforeAll(async () => {
+    app = new MiniFramework();
+    app.useGlobalPipes((value: unknown) => (typeof value === "string" ? value.trim() : value));
+    app.useGlobalInterceptors({ intercept: async (context, next) => ({ data: await next.handle() }) });
+    app.useGlobalFilters(ConflictFilter);
+    await app.registerModule(OrderModule);
+  });
+
+  afterAll(() => app.close());
+
+  test("applies global guards registered as providers, with their dependencies", async () => {
+    const rejected = await app.inject({ url: "/orders" });
+    expect(rejected.statusCode).toBe(403);
+    expect(rejected.json()).toEqual({ statusCode: 403, message: "Forbidden" });
+    expect((await app.inject({ url: "/orders", headers })).statusCode).toBe(200);
+  });
+
+  test("runs global pipes and interceptors around every handler", async () => {
+    expect((await app.inject({ url: "/orders?q=%20shoes%20", headers })).json()).toEqual({ data: { q: "shoes" } });
+  });
+
+  test("limits filters to the exceptions listed by @Catch", async () => {
+    const conflict = await app.inject({ method: "POST", url: "/orders", headers });
+    expect(conflict.statusCode).toBe(409);
+    expect(conflict.json()).toEqual({ conflict: "Order exists" });
+    const gone = await app.inject({ url: "/orders/gone", headers });
+    expect(gone.statusCode).toBe(410);
+    expect(gone.json()).toEqual({ statusCode: 410, message: "Gone" });
+  });
+
+  test("answers unhandled errors with a JSON 500", async () => {
+    const response = await app.inject({ url: "/orders/broken", headers });
+    expect(response.statusCode).toBe(500);
+    expect(response.json()).toEqual({ statusCode: 500, message: "Internal server error" });
+  });
+
+  test("keeps the response body and the cause of HTTP exceptions", () => {
+    const cause = new Error("Duplicate key");
+    const exception = new ConflictException("Order exists", { response: { code: "ORDER_EXISTS" }, cause });
+    expect(exception).toBeInstanceOf(HttpException);
+    expect(exception.name).toBe("ConflictException");
+    expect(exception.getStatus()).toBe(409);
+    expect(exception.getResponse()).toEqual({ code: "ORDER_EXISTS" });
+    expect(exception.cause).toBe(cause);
+    expect(new BadRequestException().getResponse()).toEqual({ statusCode: 400, message: "Bad Request" });
+  });
+});
+
+describe("Logger", () => {
+  const entries: LogEntry[] = [];
+
+  @Controller("/audit")
+  class AuditController {
+    constructor(private logger: Logger) {}
+
+    @Get("/:id")
+    get(@Param("id") id: string) {
+      this.logger.log("Reading an audit entry", { id });
+      return { id };
+    }
+  }
+
+  @Module({ controllers: [AuditController] })
+  class AuditModule {}
+
+  let app: MiniFramework;
+
+  beforeAll(async () => {
+    app = new MiniFramework();
+    app.useLogger({ write: (entry) => entries.push(entry) });
+    app.enableRequestLogging();
+    await app.registerModule(AuditModule);
+  });
+
+  afterAll(async () => {
+    await app.close();
+    Logger.overrideLogger({ write: () => {} });
+  });
+
+  test("logs the registration of modules and the mapping of routes", () => {
+    const messages = entries.map((entry) => entry.message);
+    expect(messages).toContain("AuditModule registered");
+    expect(messages).toContain("Mapped {GET /audit/:id} to AuditController.get");
+  });
+
+  test("names injected loggers after their class and correlates entries with the request id", async () => {
+    entries.length = 0;
+    const response = await app.inject({ url: "/audit/7", headers: { "x-request-id": "request-7" } });
+    expect(response.headers["x-request-id"]).toBe("request-7");
+    await sleep(10);
+    const [handler, access] = entries;
+    expect(handler).toMatchObject({ level: "log", context: "AuditController", requestId: "request-7", message: "Reading an audit entry", fields: { id: "7" } });
+    expect(access).toMatchObject({ level: "log", context: "MiniFramework", requestId: "request-7", fields: { method: "GET", route: "/audit/:id", status: 200 } });
+    expect(access.fields.duration).toBeNumber();
+  });
+
+  test("assigns a request id when the request has none, and logs client errors as warnings", async () => {
+    entries.length = 0;
+    const response = await app.inject({ url: "/missing" });
+    expect(response.headers["x-request-id"]).toMatch(/^[0-9a-f-]{36}$/);
+    await sleep(10);
+    expect(entries.at(-1)).toMatchObject({ level: "warn", requestId: response.headers["x-request-id"], fields: { status: 404 } });
+  });
+
+  test("writes one JSON object per line with the levels of ConsoleLogger", () => {
+    const lines: string[] = [];
+    const write = process.stdout.write;
+    process.stdout.write = ((chunk: string) => lines.push(chunk) > 0) as typeof process.stdout.write;
+    try {
+      const logger = new ConsoleLogger({ format: "json", levels: ["log"] });
+      logger.write({ level: "log", message: "Started", timestamp: new Date(0), context: "Main", requestId: "request-1", fields: { port: 3000 } });
+      logger.write({ level: "debug", message: "Hidden", timestamp: new Date(0), fields: {} });
+    } finally {
+      process.stdout.write = write;
+    }
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toEqual({ timestamp: "1970-01-01T00:00:00.000Z", level: "log", context: "Main", requestId: "request-1", message: "Started", port: 3000 });
+  });
+});
+
+describe("events", () => {
+  const calls: string[] = [];
+
+  @Injectable()
+  class UserService {
+    constructor(private events: EventEmitter) {}
+
+    createUser(name: string) {
+      return this.events.emit("user.created", { name });
+    }
+  }
+
+  @Injectable()
+  class MailListener {
+    @OnEvent("user.created")
+    sendWelcome({ name }: { name: string }) {
+      calls.push(`welcome ${name}`);
+      return "sent";
+    }
+
+    @OnEvent("user.created", { async: true })
+    subscribe({ name }: { name: string }) {
+      calls.push(`subscribe ${name}`);
+    }
+  }
+
+  @Injectable()
+  class AuditListener {
+    @OnEvent("user.*")
+    audit(_payload: unknown, event: string) {
+      calls.push(`audit ${event}`);
+    }
+
+    @OnEvent("**", { prependListener: true })
+    trace(_payload: unknown, event: string) {
+      calls.push(`trace ${event}`);
+    }
+
+    @OnEvent("user.created")
+    fail() {
+      throw new Error("The audit log is full");
+    }
+  }
+
+  @Module({ providers: [UserService], exports: [UserService] })
+  class UsersModule {}
+
+  @Module({ providers: [MailListener, AuditListener] })
+  class NotificationsModule {}
+
+  @Module({ imports: [UsersModule, NotificationsModule] })
+  class EventsModule {}
+
+  let app: MiniFramework;
+  const entries: LogEntry[] = [];
+
+  beforeAll(async () => {
+    app = new MiniFramework();
+    app.useLogger({ write: (entry) => entries.push(entry) });
+    await app.registerModule(EventsModule);
+  });
+
+  afterAll(async () => {
+    await app.close();
+    Logger.overrideLogger({ write: () => {} });
+  });
+
+  afterEach(() => {
+    calls.length = 0;
+  });
+
+  test("calls the listeners of every module, in order, and the async ones after emit returns", async () => {
+    expect(app.get(UserService).createUser("Ada")).toBe(true);
+    expect(calls).toEqual(["trace user.created", "welcome Ada", "audit user.created"]);
+    await sleep(0);
+    expect(calls).toEqual(["trace user.created", "welcome Ada", "audit user.created", "subscribe Ada"]);
+  });
+
+  test("matches namespaced events with wildcards", () => {
+    expect(app.get(EventEmitter).emit("user.deleted")).toBe(true);
+    expect(app.get(EventEmitter).emit("order.item.added")).toBe(true);
+    expect(app.get(EventEmitter).emit("user.profile.updated")).toBe(true);
+    expect(calls).toEqual(["trace user.deleted", "audit user.deleted", "trace order.item.added", "trace user.profile.updated"]);
+  });
+
+  test("logs failing listeners and resolves emitAsync with the results of the others", async () => {
+    entries.length = 0;
+    const results = await app.get(EventEmitter).emitAsync("user.created", { name: "Grace" });
+    expect(results).toEqual([undefined, "sent", undefined, undefined]);
+    expect(calls).toContain("subscribe Grace");
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({ level: "error", context: "EventEmitter", message: 'Listener of "user.created" failed' });
+    expect((entries[0].fields.error as Error).message).toBe("The audit log is full");
+  });
+});
+
+describe("route table", () => {
+  const Job = (name: string) => createDecorator("plugin:job", name) as MethodDecorator;
+
+  @Injectable()
+  class ReportJobs {
+    @Job("nightly")
+    run() {}
+
+    format() {}
+  }
+
+  @Controller("/catalog")
+  class CatalogController {
+    @Get()
+    list() {
+      return [];
+    }
+
+    @Get("/:id")
+    get(@Param("id") id: string) {
+      return { id };
+    }
+
+    @Post()
+    create() {}
+  }
+
+  @Module({ providers: [ReportJobs], controllers: [CatalogController] })
+  class CatalogModule {}
+
+  @Controller("/drafts")
+  class DraftController {
+    @Get("/:id")
+    get() {}
+
+    @Get("/latest")
+    latest() {}
+
+    @Get("/:id")
+    again() {}
+
+    @HttpCode(204)
+    remove() {}
+  }
+
+  @Module({ controllers: [DraftController] })
+  class DraftModule {}
+
+  test("lists every route in the order they are matched, including @Get() without a path", async () => {
+    const app = new MiniFramework();
+    await app.registerModule(CatalogModule);
+    expect(app.getRouteTable().map(({ method, path, controller, handlerName }) => `${method} ${path} ${controller.name}.${handlerName}`)).toEqual([
+      "GET /catalog CatalogController.list",
+      "GET /catalog/:id CatalogController.get",
+      "POST /catalog CatalogController.create",
+    ]);
+    expect((await app.inject({ url: "/catalog" })).json()).toEqual([]);
+    expect(app.get(DiscoveryService).getRoutes()).toEqual(app.getRouteTable());
+    await app.close();
+  });
+
+  test("discovers the modules, providers and decorated methods", async () => {
+    const app = new MiniFramework();
+    await app.registerModule(CatalogModule);
+    const discovery = app.get(DiscoveryService);
+    const catalog = discovery.getModules().find((module) => module.metatype === CatalogModule);
+    expect(catalog?.providers.map((provider) => provider.name)).toEqual(["ReportJobs"]);
+    expect(catalog?.controllers.map((controller) => controller.name)).toEqual(["CatalogController"]);
+    const methods = discovery.getMethods("plugin:job");
+    expect(methods.map(({ parent, methodName, metadata }) => [parent.name, methodName, metadata["plugin:job"]])).toEqual([["ReportJobs", "run", "nightly"]]);
+    expect(methods[0].parent.instance).toBe(app.get(ReportJobs));
+    await app.close();
+  });
+
+  test("warns about duplicate, shadowed and skipped routes", async () => {
+    const warnings: string[] = [];
+    const app = new MiniFramework();
+    app.useLogger({ write: (entry) => entry.level === "warn" && warnings.push(entry.message) });
+    await app.registerModule(DraftModule);
+    Logger.overrideLogger({ write: () => {} });
+    expect(warnings).toEqual([
+      "DraftController.remove has route metadata (httpCode) but no HTTP method decorator, it is not mapped",
+      "Route {GET /drafts/latest} (DraftController.latest) is shadowed by {GET /drafts/:id} (DraftController.get) registered before it",
+      "Duplicate route {GET /drafts/:id} (DraftController.again), it is already mapped to DraftController.get",
+    ]);
+    await app.close();
+  });
+
+  test("rejects an invalid route table with strict routing", async () => {
+    const app = new MiniFramework();
+    app.enableStrictRouting();
+    await expect(app.registerModule(DraftModule)).rejects.toThrow("Invalid route table:\n  - DraftController.remove has route metadata");
+    await app.close();
+  });
+});
+
+describe("dependency graph", () => {
+  @Injectable()
+  class MetricsService {
+    count = 0;
+  }
+
+  @Injectable()
+  class AuthService {
+    // Typed with Pick, the class is not defined yet when the parameter types are recorded
+    constructor(@Inject(forwardRef(() => AccountService)) private accounts: Pick<AccountService, "find">) {}
+
+    login(name: string) {
+      return this.accounts.find(name);
+    }
+  }
+
+  @Injectable()
+  class AccountService {
+    constructor(@Inject(AuthService) public auth: AuthService) {}
+
+    find(name: string) {
+      return { name };
+    }
+  }
+
+  @Module({ imports: [forwardRef(() => AccountModule)], providers: [AuthService], exports: [AuthService] })
+  class AuthModule {}
+
+  @Module({ imports: [forwardRef(() => AuthModule)], providers: [AccountService], exports: [AccountService] })
+  class AccountModule {}
+
+  test("resolves providers and modules depending on each other through forwardRef", async () => {
+    const app = new MiniFramework();
+    await app.registerModule(AuthModule);
+    expect(app.get(AuthService).login("Ada")).toEqual({ name: "Ada" });
+    expect(app.get(AccountService).auth).toBe(app.get(AuthService));
+    await app.close();
+  });
+
+  test("rejects circular dependencies without forwardRef", async () => {
+    @Injectable()
+    class Invoices {
+      constructor(@Inject("PAYMENTS") private payments: unknown) {}
+    }
+
+    @Module({ providers: [Invoices, { provide: "PAYMENTS", useFactory: (invoices: Invoices) => ({ invoices }), inject: [Invoices] }] })
+    class BillingModule {}
+
+    await expect(new MiniFramework().registerModule(BillingModule)).rejects.toThrow("Circular dependency between providers: Invoices -> PAYMENTS -> Invoices");
+  });
+
+  test("names the provider, parameter and module of a missing dependency", async () => {
+    @Injectable()
+    class ReportService {
+      constructor(@Inject(MetricsService) private metrics: MetricsService, @Inject(AuthService) private auth: AuthService) {}
+    }
+
+    @Module({ providers: [MetricsService, ReportService] })
+    class ReportModule {}
+
+    await expect(new MiniFramework().registerModule(ReportModule)).rejects.toThrow(
+      "Cannot resolve ReportService (MetricsService, ?) at index 1 in ReportModule: AuthService is neither a provider of ReportModule nor exported by a module it imports"
+    );
+  });
+
+  test("injects optional parameters and properties only when they are provided", async () => {
+    @Injectable()
+    class Tracker {
+      @Inject(MetricsService)
+      metrics!: MetricsService;
+
+      @Optional()
+      @Inject(AuthService)
+      auth?: AuthService;
+
+      constructor(@Optional() @Inject(AccountService) public accounts?: AccountService) {}
+    }
+
+    @Module({ providers: [MetricsService, Tracker] })
+    class TrackerModule {}
+
+    const app = new MiniFramework();
+    await app.registerModule(TrackerModule);
+    const tracker = app.get(Tracker);
+    expect(tracker.metrics).toBe(app.get(MetricsService));
+    expect(tracker.auth).toBeUndefined();
+    expect(tracker.accounts).toBeUndefined();
+    await app.close();
+  });
+
+  test("names the property of a missing property injection", async () => {
+    @Injectable()
+    class Tracker {
+      @Inject(MetricsService)
+      metrics!: MetricsService;
+    }
+
+    @Module({ providers: [Tracker] })
+    class TrackerModule {}
+
+    await expect(new MiniFramework().registerModule(TrackerModule)).rejects.toThrow(
+      "Cannot resolve Tracker.metrics in TrackerModule: MetricsService is neither a provider of TrackerModule nor exported by a module it imports"
+    );
+  });
+
+  test("does not make constructor parameters optional with @Optional on a handler parameter", async () => {
+    @Controller("/tracked")
+    class TrackedController {
+      constructor(@Inject(MetricsService) private metrics: MetricsService) {}
+
+      @Get()
+      list(@Optional() @Query("page") page?: string) {
+        return { page };
+      }
+    }
+
+    @Module({ controllers: [TrackedController] })
+    class TrackedModule {}
+
+    await expect(new MiniFramework().registerModule(TrackedModule)).rejects.toThrow("Cannot resolve TrackedController (?) at index 0 in TrackedModule");
+  });
+});
+
+describe("serialization", () => {
+  const UserSchema = z.object({ id: z.number(), name: z.string(), createdAt: z.date().transform((date) => date.toISOString()) });
+  const user = { id: 1, name: "Ada", passwordHash: "secret", createdAt: new Date(0) };
+  const serialized = { id: 1, name: "Ada", createdAt: "1970-01-01T00:00:00.000Z" };
+
+  @Controller("/members")
+  @Serialize(UserSchema)
+  class MemberController {
+    @Get()
+    list() {
+      return [user, { ...user, id: 2 }];
+    }
+
+    @Get("/page")
+    @Serialize(UserSchema, { property: "items" })
+    page() {
+      return { items: [user], total: 1, page: 1 };
+    }
+
+    @Get("/profile")
+    @Serialize({ admin: z.object({ name: z.string(), passwordHash: z.string() }), default: z.object({ name: z.string() }) })
+    profile() {
+      return user;
+    }
+
+    @Get("/audit")
+    @Serialize({ admin: z.object({ name: z.string() }) })
+    audit() {
+      return user;
+    }
+
+    @Get("/broken")
+    broken() {
+      return { ...user, id: "1" };
+    }
+
+    @Post("/reset")
+    reset() {}
+
+    @Get("/:id")
+    get() {
+      return user;
+    }
+  }
+
+  @Module({ controllers: [MemberController] })
+  class MemberModule {}
+
+  let app: MiniFramework;
+  const errors: LogEntry[] = [];
+
+  beforeAll(async () => {
+    app = new MiniFramework();
+    app.useLogger({ write: (entry) => entry.level === "error" && errors.push(entry) });
+    app.useSerializationGroups((context) => context.getRequest().headers["x-role"] as string | undefined);
+    await app.registerModule(MemberModule);
+  });
+
+  afterAll(async () => {
+    await app.close();
+    Logger.overrideLogger({ write: () => {} });
+  });
+
+  test("strips and transforms the properties of results, arrays and wrappers", async () => {
+    expect((await app.inject({ url: "/members/1" })).json()).toEqual(serialized);
+    expect((await app.inject({ url: "/members" })).json()).toEqual([serialized, { ...serialized, id: 2 }]);
+    expect((await app.inject({ url: "/members/page" })).json()).toEqual({ items: [serialized], total: 1, page: 1 });
+  });
+
+  test("chooses the schema of the groups of the request, then the default one", async () => {
+    expect((await app.inject({ url: "/members/profile", headers: { "x-role": "admin" } })).json()).toEqual({ name: "Ada", passwordHash: "secret" });
+    expect((await app.inject({ url: "/members/profile", headers: { "x-role": "guest" } })).json()).toEqual({ name: "Ada" });
+    expect((await app.inject({ url: "/members/audit", headers: { "x-role": "admin" } })).json()).toEqual({ name: "Ada" });
+  });
+
+  test("answers results that cannot be serialized with a logged 500", async () => {
+    errors.length = 0;
+    for (const request of [{ url: "/members/broken" }, { url: "/members/audit" }]) {
+      const response = await app.inject(request);
+      expect(response.statusCode).toBe(500);
+      expect(response.json()).toEqual({ statusCode: 500, message: "Internal Server Error" });
+    }
+    expect(errors.map((entry) => entry.message)).toEqual(["Cannot serialize the result of MemberController.broken", "Cannot serialize the result of MemberController.audit"]);
+  });
+
+  test("sends an empty response when the handler returns nothing", async () => {
+    const response = await app.inject({ method: "POST", url: "/members/reset" });
+    expect(response.statusCode).toBe(200);
+    expect(response.body).toBe("");
+  });
+});
+
+describe("versioning", () => {
+  @Controller("/items")
+  class ItemController {
+    @Get()
+    @Version("1")
+    listV1() {
+      return { version: 1 };
+    }
+
+    @Get()
+    @Version("2")
+    listV2() {
+      return { version: 2 };
+    }
+
+    @Get("/count")
+    count() {
+      return { count: 0 };
+    }
+  }
+
+  @Module({ controllers: [ItemController] })
+  class ItemModule {}
+
+  let app: MiniFramework;
+
+  const createApp = async (options: VersioningOptions) => {
+    app = new MiniFramework();
+    app.enableVersioning(options);
+    await app.registerModule(ItemModule);
+  };
+
+  afterEach(() => app.close());
+
+  test("reads the version from the path with uri versioning", async () => {
+    await createApp({ type: "uri", defaultVersion: "1" });
+    expect((await app.inject({ url: "/v1/items" })).json()).toEqual({ version: 1 });
+    expect((await app.inject({ url: "/v2/items" })).json()).toEqual({ version: 2 });
+    expect((await app.inject({ url: "/v1/items/count" })).json()).toEqual({ count: 0 });
+    expect((await app.inject({ url: "/v2/items/count" })).statusCode).toBe(404);
+    expect((await app.inject({ url: "/items" })).statusCode).toBe(404);
+  });
+
+  test("reads the version from a header, falling back to the default version", async () => {
+    await createApp({ type: "header", header: "X-Version", defaultVersion: "2" });
+    expect((await app.inject({ url: "/items", headers: { "x-version": "1" } })).json()).toEqual({ version: 1 });
+    expect((await app.inject({ url: "/items", headers: { "x-version": "2" } })).json()).toEqual({ version: 2 });
+    expect((await app.inject({ url: "/items" })).json()).toEqual({ version: 2 });
+  });
+
+  test("reads the version from the Accept header with media-type versioning", async () => {
+    await createApp({ type: "media-type", defaultVersion: "1" });
+    expect((await app.inject({ url: "/items", headers: { accept: "application/json;v=2" } })).json()).toEqual({ version: 2 });
+    expect((await app.inject({ url: "/items", headers: { accept: "application/json; v=1" } })).json()).toEqual({ version: 1 });
+    expect((await app.inject({ url: "/items", headers: { accept: "application/json" } })).json()).toEqual({ version: 1 });
+  });
+
+  test("answers unsupported versions with a JSON 404", async () => {
+    for (const [options, request] of [
+      [{ type: "uri" }, { url: "/v9/items" }],
+      [{ type: "header" }, { url: "/items", headers: { "x-api-version": "9" } }],
+      [{ type: "media-type" }, { url: "/items", headers: { accept: "application/json;v=9" } }],
+    ] as const) {
+      await createApp(options);
+      const response = await app.inject(request);
+      expect(response.statusCode).toBe(404);
+      expect(response.headers["content-type"]).toContain("application/json");
+      expect(response.json().message).toBe("Version 9 is not supported");
+      await app.close();
+    }
+  });
+});
+
+describe("OpenAPI", () => {
+  const UserSchema = z.object({ id: z.number(), name: z.string() });
+
+  @Controller("/docs/users")
+  @ApiTags("users")
+  class DocumentedController {
+    @Post("/:teamId")
+    @HttpCode(201)
+    @ApiOperation({ summary: "Create a user" })
+    @ApiResponse({ status: 201, description: "Created", schema: UserSchema })
+    @ApiResponse({ status: 400, description: "Invalid user" })
+    create(
+      @Param("teamId", ParseIntPipe) teamId: number,
+      @Query("notify", z.enum(["yes", "no"]).optional()) notify: string | undefined,
+      @Body(z.object({ name: z.string().min(1), email: z.string().email().optional() })) user: { name: string }
+    ) {
+      return { id: teamId, ...user };
+    }
+  }
+
+  @Module({ controllers: [DocumentedController] })
+  class DocumentedModule {}
+
+  let app: MiniFramework;
+
+  beforeAll(async () => {
+    app = new MiniFramework();
+    app.enableOpenApi({ info: { title: "Users", version: "2.0.0" }, path: "/openapi.json" });
+    await app.registerModule(DocumentedModule);
+  });
+
+  afterAll(() => app.close());
+
+  test("documents the parameters, body and responses of a route from its Zod schemas", () => {
+    const document = app.getOpenApiDocument();
+    expect(document.info).toEqual({ title: "Users", version: "2.0.0" });
+    expect(document.paths["/docs/users/{teamId}"].post).toEqual({
+      operationId: "DocumentedController_create",
+      summary: "Create a user",
+      tags: ["users"],
+      parameters: [
+        { name: "teamId", in: "path", required: true, schema: { type: "integer" } },
+        { name: "notify", in: "query", required: false, schema: { type: "string", enum: ["yes", "no"] } },
+      ],
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": {
+            schema: {
+              type: "object",
+              properties: { name: { type: "string", minLength: 1 }, email: { type: "string", format: "email" } },
+              required: ["name"],
+            },
+          },
+        },
+      },
+      responses: {
+        "201": {
+          description: "Created",
+          content: {
+            "application/json": {
+              schema: { type: "object", properties: { id: { type: "number" }, name: { type: "string" } }, required: ["id", "name"] },
+            },
+          },
+        },
+        "400": { description: "Invalid user" },
+      },
+    });
+  });
+
+  test("serves the document as JSON", async () => {
+    const response = await app.inject({ url: "/openapi.json" });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual(JSON.parse(JSON.stringify(app.getOpenApiDocument())));
+  });
+});
+
+describe("modules", () => {
+  test("hides the providers a module does not export from its importers", async () => {
+    @Injectable()
+    class PasswordHasher {}
+
+    @Injectable()
+    class UsersService {}
+
+    @Module({ providers: [PasswordHasher, UsersService], exports: [UsersService] })
+    class UsersModule {}
+
+    @Injectable()
+    class AuthService {
+      constructor(@Inject(UsersService) readonly users: UsersService, @Inject(PasswordHasher) readonly hasher: PasswordHasher) {}
+    }
+
+    @Module({ imports: [UsersModule], providers: [AuthService] })
+    class AuthModule {}
+
+    await expect(new MiniFramework().registerModule(AuthModule)).rejects.toThrow(
+      "Cannot resolve AuthService (UsersService, ?) at index 1 in AuthModule: PasswordHasher is neither a provider of AuthModule nor exported by a module it imports"
+    );
+  });
+
+  test("makes the exports of global modules and the providers of dynamic modules available", async () => {
+    @Injectable()
+    class Settings {
+      readonly region = "eu";
+    }
+
+    @Global()
+    @Module({ providers: [Settings], exports: [Settings] })
+    class SettingsModule {}
+
+    @Injectable()
+    class Database {
+      constructor(@Inject("DATABASE_OPTIONS") readonly options: { url: string }, @Inject(Settings) readonly settings: Settings) {}
+    }
+
+    @Module({})
+    class DatabaseModule {
+      static forRoot(options: { url: string }): DynamicModule {
+        return { module: DatabaseModule, providers: [{ provide: "DATABASE_OPTIONS", useValue: options }, Database], exports: [Database] };
+      }
+    }
+
+    // Re-exports the dynamic module it imports
+    @Module({ imports: [DatabaseModule.forRoot({ url: "db://local" })], exports: [DatabaseModule] })
+    class CoreModule {}
+
+    @Injectable()
+    class ReportsService {
+      constructor(@Inject(Database) readonly database: Database, @Inject(Settings) readonly settings: Settings) {}
+    }
+
+    @Module({ imports: [CoreModule], providers: [ReportsService] })
+    class ReportsModule {}
+
+    @Module({ imports: [SettingsModule, ReportsModule] })
+    class RootModule {}
+
+    const app = new MiniFramework();
+    await app.registerModule(RootModule);
+    const reports = app.get(ReportsService);
+    expect(reports.database.options).toEqual({ url: "db://local" });
+    expect(reports.settings.region).toBe("eu");
+    expect(reports.database.settings).toBe(reports.settings);
+    await app.close();
+  });
+});
+
+describe("providers", () => {
+  test("resolves factories, their dependencies and aliases before the application starts", async () => {
+    const CONNECTION = Symbol("CONNECTION");
+    let created = 0;
+
+    @Injectable()
+    class Repository {
+      constructor(@Inject(CONNECTION) readonly connection: { url: string }) {}
+    }
+
+    @Module({
+      providers: [
+        // Listed before the async factory it depends on, which is still pending when it is created
+        { provide: "TABLES", useFactory: (connection: { url: string }) => [`${connection.url}/users`], inject: [CONNECTION] },
+        { provide: "DATABASE_URL", useValue: "db://local" },
+        {
+          provide: CONNECTION,
+          useFactory: async (url: string) => {
+            await sleep(10);
+            return { url };
+          },
+          inject: ["DATABASE_URL"],
+        },
+        Repository,
+        { provide: "REPOSITORY", useExisting: Repository },
+        { provide: "COUNTER", useFactory: () => ({ id: ++created }), scope: "Transient" },
+      ],
+    })
+    class DatabaseModule {}
+
+    const app = new MiniFramework();
+    await app.registerModule(DatabaseModule);
+    expect(app.get<Repository>(Repository).connection).toEqual({ url: "db://local" });
+    expect(app.get("TABLES")).toEqual(["db://local/users"]);
+    expect(app.get("REPOSITORY")).toBe(app.get(Repository));
+    expect(app.get("COUNTER")).not.toBe(app.get("COUNTER"));
+    await app.close();
+  });
+
+  test("rejects with the error of a failing factory", async () => {
+    @Injectable()
+    class Mailer {
+      constructor(@Inject("TRANSPORT") readonly transport: unknown) {}
+    }
+
+    @Module({
+      providers: [
+        {
+          provide: "TRANSPORT",
+          useFactory: () => {
+            throw new Error("No SMTP server");
+          },
+        },
+        Mailer,
+      ],
+    })
+    class MailModule {}
+
+    await expect(new MiniFramework().registerModule(MailModule)).rejects.toThrow("No SMTP server");
+  });
+});
+
+describe("ConfigModule", () => {
+  const keys = ["CONFIG_TEST_NAME", "CONFIG_TEST_PORT", "CONFIG_TEST_LOCAL", "CONFIG_TEST_SET"];
+  const cwd = process.cwd();
+  const nodeEnv = process.env.NODE_ENV;
+  let directory: string;
+
+  const load = async (options: ConfigModuleOptions) => {
+    @Module({ imports: [ConfigModule.forRoot(options)] })
+    class ConfiguredModule {}
+
+    const app = new MiniFramework();
+    await app.registerModule(ConfiguredModule);
+    return app.get<ConfigService<Record<string, any>>>(ConfigService);
+  };
+
+  beforeAll(() => {
+    directory = mkdtempSync(join(tmpdir(), "config-"));
+    writeFileSync(join(directory, ".env"), "CONFIG_TEST_NAME=base\nCONFIG_TEST_PORT=3000\nCONFIG_TEST_LOCAL=base\nCONFIG_TEST_SET=file\n");
+    writeFileSync(join(directory, ".env.local"), "CONFIG_TEST_NAME=local\nCONFIG_TEST_LOCAL=local\n");
+    writeFileSync(join(directory, ".env.staging"), "CONFIG_TEST_NAME=staging\n");
+  });
+
+  afterEach(() => {
+    process.chdir(cwd);
+    if (nodeEnv === undefined) {
+      delete process.env.NODE_ENV;
+    } else {
+      process.env.NODE_ENV = nodeEnv;
+    }
+    keys.forEach((key) => delete process.env[key]);
+  });
+
+  afterAll(() => rmSync(directory, { recursive: true, force: true }));
+
+  test("applies .env, .env.local and .env.${NODE_ENV} in order, under the variables of the process", async () => {
+    process.chdir(directory);
+    process.env.NODE_ENV = "staging";
+    process.env.CONFIG_TEST_SET = "process";
+    const config = await load({ schema: z.object({ CONFIG_TEST_NAME: z.string(), CONFIG_TEST_PORT: z.coerce.number(), CONFIG_TEST_LOCAL: z.string(), CONFIG_TEST_SET: z.string() }) });
+    expect(config.get("CONFIG_TEST_NAME")).toBe("staging");
+    expect(config.get("CONFIG_TEST_LOCAL")).toBe("local");
+    expect(config.get("CONFIG_TEST_PORT")).toBe(3000);
+    expect(config.get("CONFIG_TEST_SET")).toBe("process");
+    expect(process.env.CONFIG_TEST_LOCAL).toBe("local");
+  });
+
+  test("reports every invalid variable at startup", async () => {
+    process.env.CONFIG_TEST_PORT = "abc";
+    const error = await load({ ignoreEnvFile: true, schema: z.object({ CONFIG_TEST_PORT: z.coerce.number(), CONFIG_TEST_NAME: z.string() }) }).catch((error) => error);
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect(error.issues.map((issue: { key: string }) => issue.key)).toEqual(["CONFIG_TEST_PORT", "CONFIG_TEST_NAME"]);
+  });
+});
+
+describe("request scope", () => {
+  const disposed: number[] = [];
+  let created = 0;
+
+  @Injectable("Request")
+  class TenantService {
+    readonly id = ++created;
+
+    constructor(@Inject(REQUEST) readonly request: IncomingMessage) {}
+
+    onRequestDispose() {
+      disposed.push(this.id);
+    }
+  }
+
+  // A singleton depending on a request-scoped provider, promoted to the request scope
+  @Injectable()
+  class ReportService {
+    constructor(@Inject(TenantService) readonly tenant: TenantService) {}
+  }
+
+  @Injectable()
+  class AuditService {
+    requestId() {
+      return RequestContext.current()?.id;
+    }
+  }
+
+  @Controller("/tenants")
+  class TenantController {
+    constructor(@Inject(ReportService) private reports: ReportService, @Inject(AuditService) private audit: AuditService) {}
+
+    @Get("/:name")
+    async get(@Param("name") name: string) {
+      await sleep(20);
+      return { name, tenant: this.reports.tenant.id, url: this.reports.tenant.request.url, requestId: this.audit.requestId() };
+    }
+  }
+
+  @Module({ controllers: [TenantController], providers: [TenantService, ReportService, AuditService] })
+  class TenantModule {}
+
+  test("creates the request-scoped providers, and the ones depending on them, once per request", async () => {
+    const app = new MiniFramework();
+    await app.registerModule(TenantModule);
+    const [first, second] = await Promise.all([
+      app.inject({ url: "/tenants/a", headers: { "x-request-id": "request-a" } }),
+      app.inject({ url: "/tenants/b", headers: { "x-request-id": "request-b" } }),
+    ]);
+    expect(first.json()).toEqual({ name: "a", tenant: expect.any(Number), url: "/tenants/a", requestId: "request-a" });
+    expect(second.json()).toEqual({ name: "b", tenant: expect.any(Number), url: "/tenants/b", requestId: "request-b" });
+    expect(first.json().tenant).not.toBe(second.json().tenant);
+    await sleep(10);
+    expect(disposed.sort((a, b) => a - b)).toEqual([first.json().tenant, second.json().tenant].sort((a, b) => a - b));
+    expect(() => app.get(ReportService)).toThrow("ReportService is request-scoped");
+    await app.close();
+  });
+});
+
+describe("CacheModule", () => {
+  let computed = 0;
+
+  @Controller("/cached")
+  @UseInterceptors(CacheInterceptor)
+  class CachedController {
+    @Get()
+    @CacheControl({ public: true, maxAge: 30 })
+    list(@Query("page") page?: string) {
+      return { page, computed: ++computed };
+    }
+
+    @Get("/short")
+    @CacheTTL(20)
+    short() {
+      return { computed: ++computed };
+    }
+
+    @Get("/keyed/:id")
+    @CacheKey("keyed")
+    keyed(@Param("id") id: string) {
+      return { id };
+    }
+
+    @Get("/profile")
+    @Serialize({ admin: z.object({ name: z.string(), email: z.string() }), default: z.object({ name: z.string() }) })
+    profile() {
+      return { name: "Ada", email: "ada@example.com" };
+    }
+  }
+
+  @Module({ imports: [CacheModule.forRoot()], controllers: [CachedController] })
+  class CachedModule {}
+
+  let app: MiniFramework;
+
+  beforeAll(async () => {
+    app = new MiniFramework();
+    app.useSerializationGroups((context) => context.getRequest().headers["x-role"] as string | undefined);
+    await app.registerModule(CachedModule);
+  });
+
+  afterAll(() => app.close());
+
+  test("serves GET responses from the cache, keyed by URL", async () => {
+    const first = await app.inject({ url: "/cached?page=1" });
+    expect(first.headers["cache-control"]).toBe("public, max-age=30");
+    expect((await app.inject({ url: "/cached?page=1" })).json()).toEqual(first.json());
+    expect((await app.inject({ url: "/cached?page=2" })).json().computed).toBe(first.json().computed + 1);
+  });
+
+  test("expires responses after their time to live", async () => {
+    const first = (await app.inject({ url: "/cached/short" })).json().computed;
+    expect((await app.inject({ url: "/cached/short" })).json().computed).toBe(first);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    expect((await app.inject({ url: "/cached/short" })).json().computed).toBe(first + 1);
+  });
+
+  test("uses the key of @CacheKey", async () => {
+    expect((await app.inject({ url: "/cached/keyed/1" })).json()).toEqual({ id: "1" });
+    expect((await app.inject({ url: "/cached/keyed/2" })).json()).toEqual({ id: "1" });
+  });
+
+  test("does not cache routes serialized with groups", async () => {
+    expect((await app.inject({ url: "/cached/profile", headers: { "x-role": "admin" } })).json()).toEqual({ name: "Ada", email: "ada@example.com" });
+    expect((await app.inject({ url: "/cached/profile" })).json()).toEqual({ name: "Ada" });
+  });
+
+  test("evicts the least recently used entries of a MemoryStore", () => {
+    const store = new MemoryStore({ max: 2 });
+    store.set("a", 1);
+    store.set("b", 2);
+    store.get("a");
+    store.set("c", 3);
+    expect([store.get("a"), store.get("b"), store.get("c")]).toEqual([1, undefined, 3]);
+  });
+
+  test("computes missing values once with CacheManager.wrap", async () => {
+    const cache = new CacheManager(new MemoryStore());
+    let calls = 0;
+    expect(await cache.wrap("rates", () => ++calls)).toBe(1);
+    expect(await cache.wrap("rates", () => ++calls)).toBe(1);
+    await cache.delete("rates");
+    expect(await cache.wrap("rates", () => ++calls)).toBe(2);
+  });
+
+  test("requires CacheModule to use CacheInterceptor", async () => {
+    @Module({ controllers: [CachedController] })
+    class WithoutCacheModule {}
+
+    await expect(new MiniFramework().registerModule(WithoutCacheModule)).rejects.toThrow("CacheInterceptor, used by CachedController");
+  });
+});
+
+describe("ThrottlerGuard", () => {
+  const destroyed: string[] = [];
+
+  @Controller("/limited")
+  @UseGuards(ThrottlerGuard)
+  class LimitedController {
+    @Get()
+    @Throttle({ default: { limit: 2 } })
+    get() {
+      return "ok";
+    }
+
+    @Get("/free")
+    @SkipThrottle()
+    free() {
+      return "ok";
+    }
+
+    @Get("/burst")
+    @SkipThrottle({ default: true })
+    burst() {
+      return "ok";
+    }
+  }
+
+  @Module({
+    imports: [
+      ThrottlerModule.forRoot({
+        throttlers: [
+          { ttl: 60_000, limit: 5 },
+          { name: "burst", ttl: 1_000, limit: 3 },
+        ],
+        storage: new (class extends MemoryThrottlerStorage {
+          onModuleDestroy() {
+            destroyed.push("storage");
+            super.onModuleDestroy();
+          }
+        })(),
+      }),
+    ],
+    controllers: [LimitedController],
+  })
+  class LimitedModule {}
+
+  let app: MiniFramework;
+
+  beforeAll(async () => {
+    app = new MiniFramework();
+    await app.registerModule(LimitedModule);
+  });
+
+  test("answers the requests over a limit with a 429", async () => {
+    const first = await app.inject({ url: "/limited" });
+    expect(String(first.headers["x-ratelimit-limit"])).toBe("2");
+    expect(String(first.headers["x-ratelimit-remaining"])).toBe("1");
+    expect(String(first.headers["x-ratelimit-limit-burst"])).toBe("3");
+    expect((await app.inject({ url: "/limited" })).statusCode).toBe(200);
+    const limited = await app.inject({ url: "/limited" });
+    expect(limited.statusCode).toBe(429);
+    expect(String(limited.headers["retry-after"])).toBe("60");
+    expect(limited.json()).toEqual({ statusCode: 429, message: "Too Many Requests" });
+  });
+
+  test("skips every limit, or the named ones, with @SkipThrottle", async () => {
+    for (let index = 0; index < 6; index++) {
+      const response = await app.inject({ url: "/limited/free" });
+      expect(response.statusCode).toBe(200);
+      expect(response.headers["x-ratelimit-limit"]).toBeUndefined();
+    }
+    const statuses: number[] = [];
+    for (let index = 0; index < 4; index++) {
+      const response = await app.inject({ url: "/limited/burst" });
+      expect(response.headers["x-ratelimit-limit"]).toBeUndefined();
+      statuses.push(response.statusCode);
+    }
+    expect(statuses).toEqual([200, 200, 200, 429]);
+  });
+
+  test("stops the storage when the application closes", async () => {
+    await app.close();
+    expect(destroyed).toEqual(["storage"]);
+  });
+});
+
+describe("Reflector", () => {
+  test("reads the metadata stored on the handler and on its prototype key", async () => {
+    const seen: unknown[] = [];
+
+    @Injectable()
+    class InspectGuard {
+      constructor(@Inject(Reflector) private reflector: Reflector) {}
+
+      canActivate(context: { getHandler(): Function; getClass(): Function }) {
+        seen.push(this.reflector.get("httpCode", context.getHandler()), this.reflector.getAllAndOverride("httpCode", [context.getHandler(), context.getClass()]));
+        return true;
+      }
+    }
+
+    @Controller("/inspected")
+    @UseGuards(InspectGuard)
+    class InspectedController {
+      @Post()
+      @HttpCode(201)
+      create() {
+        return {};
+      }
+    }
+
+    @Module({ controllers: [InspectedController], providers: [InspectGuard] })
+    class InspectedModule {}
+
+    const app = new MiniFramework();
+    await app.registerModule(InspectedModule);
+    expect((await app.inject({ method: "POST", url: "/inspected" })).statusCode).toBe(201);
+    expect(seen).toEqual([201, 201]);
+    await app.close();
+  });
+
+  test("reads the metadata of inherited handlers and custom decorators, which also apply to accessors", async () => {
+    const Roles = (...roles: string[]) => createDecorator("roles", roles) as MethodDecorator;
+    const seen: unknown[] = [];
+
+    @Injectable()
+    class RolesGuard {
+      constructor(@Inject(Reflector) private reflector: Reflector) {}
+
+      canActivate(context: { getHandler(): Function; getClass(): Function }) {
+        seen.push([context.getClass().name, this.reflector.get("roles", context.getHandler()), this.reflector.get("httpCode", context.getHandler())]);
+        return true;
+      }
+    }
+
+    class BaseController {
+      @Post()
+      @HttpCode(202)
+      @Roles("admin")
+      create() {
+        return {};
+      }
+
+      @Roles("admin")
+      get owner() {
+        return "Ada";
+      }
+    }
+
+    @Controller("/first")
+    @UseGuards(RolesGuard)
+    class FirstController extends BaseController {}
+
+    @Controller("/second")
+    @UseGuards(RolesGuard)
+    class SecondController extends BaseController {}
+
+    @Module({ controllers: [FirstController, SecondController], providers: [RolesGuard] })
+    class InheritedModule {}
+
+    const app = new MiniFramework();
+    await app.registerModule(InheritedModule);
+    await app.inject({ method: "POST", url: "/first" });
+    await app.inject({ method: "POST", url: "/second" });
+    expect(seen).toEqual([
+      ["FirstController", ["admin"], 202],
+      ["SecondController", ["admin"], 202],
+    ]);
+    expect(new Reflector().get("roles", BaseController.prototype.create)).toEqual(["admin"]);
+    expect(Reflect.getMetadata("roles", BaseController.prototype, "owner")).toEqual(["admin"]);
+    await app.close();
+  });
+});
+
+describe("lifecycle", () => {
+  const hooks: string[] = [];
+
+  @Injectable()
+  class Database {
+    onModuleInit() {
+      hooks.push("init Database");
+    }
+    onModuleDestroy() {
+      hooks.push("destroy Database");
+    }
+  }
+
+  @Module({ providers: [Database], exports: [Database] })
+  class DatabaseModule {}
+
+  @Injectable()
+  class Repository {
+    constructor(@Inject(Database) readonly database: Database) {}
+    onModuleInit() {
+      hooks.push("init Repository");
+    }
+    onModuleDestroy() {
+      hooks.push("destroy Repository");
+    }
+  }
+
+  @Injectable()
+  class Service {
+    constructor(@Inject(Repository) readonly repository: Repository) {}
+    onModuleInit() {
+      hooks.push("init Service");
+    }
+    onModuleDestroy() {
+      hooks.push("destroy Service");
+    }
+  }
+
+  // Registered before the modules and providers they depend on
+  @Module({ providers: [Service, Repository], imports: [DatabaseModule] })
+  class ServiceModule {}
+
+  test("runs hooks in dependency order and closes once", async () => {
+    const app = new MiniFramework();
+    await app.registerModule(ServiceModule);
+    await app.init();
+    expect(hooks).toEqual(["init Database", "init Repository", "init Service"]);
+    hooks.length = 0;
+    const closing = app.close();
+    expect(app.close()).toBe(closing);
+    await closing;
+    expect(hooks).toEqual(["destroy Service", "destroy Repository", "destroy Database"]);
+  });
+});
+
+// Builds a frame the way a client sends it, masked
+function clientFrame(opcode: number, payload: Buffer | string, fin = true): Buffer {
+  const data = Buffer.from(payload);
+  const mask = Buffer.from([1, 2, 3, 4]);
+  const header = data.length < 126 ? Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | data.length]) : Buffer.from([(fin ? 0x80 : 0) | opcode, 0x80 | 126, data.length >> 8, data.length & 0xff]);
+  return Buffer.concat([header, mask, data.map((byte, index) => byte ^ mask[index % 4])]);
+}
+
+function createClient(maxPayload = 1024) {
+  const written: Buffer[] = [];
+  const messages: string[] = [];
+  const socket = new Duplex({
+    read() {},
+    write(chunk, encoding, callback) {
+      written.push(chunk);
+      callback();
+    },
+  });
+  const client = new WsClient(new IncomingMessage(null as never), "/", socket, maxPayload, (text) => messages.push(text));
+  return { client, socket, written, messages, receive: (data: Buffer) => socket.emit("data", data) };
+}
+
+describe("WebSocket frames", () => {
+  test("reads masked text frames, also split across chunks", () => {
+    const { messages, receive } = createClient();
+    const frame = clientFrame(0x1, "hello");
+    receive(Buffer.concat([clientFrame(0x1, "first"), frame.subarray(0, 3)]));
+    receive(frame.subarray(3));
+    expect(messages).toEqual(["first", "hello"]);
+  });
+
+  test("reassembles fragmented messages and extended lengths", () => {
+    const { messages, receive } = createClient();
+    const long = "x".repeat(300);
+    receive(Buffer.concat([clientFrame(0x1, "hel", false), clientFrame(0x9, "ping"), clientFrame(0x0, "lo")]));
+    receive(clientFrame(0x1, long));
+    expect(messages).toEqual(["hello", long]);
+  });
+
+  test("answers pings with pongs", () => {
+    const { written, receive } = createClient();
+    receive(clientFrame(0x9, "ping"));
+    expect(written[0]).toEqual(Buffer.from([0x8a, 4, ...Buffer.from("ping")]));
+  });
+
+  test("closes the connection on protocol errors", () => {
+    const unmasked = createClient();
+    unmasked.receive(Buffer.from([0x81, 0x01, 0x61]));
+    expect(unmasked.written[0].readUInt16BE(2)).toBe(1002);
+    expect(unmasked.client.isOpen).toBe(false);
+
+    const tooBig = createClient(4);
+    tooBig.receive(clientFrame(0x1, "too long"));
+    expect(tooBig.written[0].readUInt16BE(2)).toBe(1009);
+    expect(tooBig.messages).toEqual([]);
+  });
+});
+
+// Opens a WebSocket connection with a raw socket, the server frames are read as JSON messages
+// Server frames are not masked, and the messages of these tests are shorter than 126 bytes
+function openConnection(port: number, path: string, headers: string[] = []) {
+  const socket = connect(port, "127.0.0.1");
+  const messages: unknown[] = [];
+  let buffer: Buffer | undefined;
+  let onMessage = () => {};
+  const statusLine = new Promise<string>((resolve) => {
+    socket.on("data", (chunk: Buffer) => {
+      if (buffer === undefined) {
+        const text = chunk.toString("latin1");
+        resolve(text.slice(0, text.indexOf("\r\n")));
+        buffer = chunk.subarray(text.indexOf("\r\n\r\n") + 4);
+      } else {
+        buffer = Buffer.concat([buffer, chunk]);
+      }
+      while (buffer.length >= 2 && buffer.length >= 2 + (buffer[1] & 0x7f)) {
+        const length = buffer[1] & 0x7f;
+        if ((buffer[0] & 0x0f) === 0x1) {
+          messages.push(JSON.parse(buffer.subarray(2, 2 + length).toString("utf8")));
+        }
+        buffer = buffer.subarray(2 + length);
+      }
+      onMessage();
+    });
+  });
+  const request = [`GET ${path} HTTP/1.1`, "Host: localhost", "Upgrade: websocket", "Connection: Upgrade", "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==", "Sec-WebSocket-Version: 13"];
+  socket.write([...request, ...headers, "", ""].join("\r\n"));
+  return {
+    socket,
+    statusLine,
+    messages,
+    send: (message: object) => socket.write(clientFrame(0x1, JSON.stringify(message))),
+    receive: (count: number) =>
+      new Promise<unknown[]>((resolve) => {
+        onMessage = () => messages.length >= count && resolve(messages.slice(0, count));
+        onMessage();
+      }),
+  };
+}
+
+describe("WebSocket gateways", () => {
+  let app: MiniFramework;
+  let port: number;
+
+  beforeAll(async () => {
+    app = new MiniFramework();
+    await app.registerModule(AppModule);
+    port = ((await app.listen(0)).address() as AddressInfo).port;
+  });
+
+  afterAll(() => app.close());
+
+  test("answers subscribed messages over a real connection", async () => {
+    const connection = openConnection(port, "/echo");
+    expect(await connection.statusLine).toBe("HTTP/1.1 101 Switching Protocols");
+    connection.send({ event: "echo", data: "hi", id: 1 });
+    expect(await connection.receive(1)).toEqual([{ event: "echo", data: { data: "hi", rooms: 0 }, id: 1 }]);
+    connection.socket.destroy();
+  });
+
+  test("handles the messages of a client in order", async () => {
+    const connection = openConnection(port, "/echo");
+    await connection.statusLine;
+    connection.send({ event: "delay", data: 50, id: 1 });
+    connection.send({ event: "delay", data: 0, id: 2 });
+    expect(await connection.receive(2)).toEqual([
+      { event: "delay", data: 50, id: 1 },
+      { event: "delay", data: 0, id: 2 },
+    ]);
+    connection.socket.destroy();
+  });
+
+  test("broadcasts to the clients accepted by their gateway only", async () => {
+    const accepted = openConnection(port, "/echo");
+    const pending = openConnection(port, "/pending");
+    await Promise.all([accepted.statusLine, pending.statusLine]);
+    await sleep(20);
+    const server = app.get(WsServer);
+    server.to("lobby").emit("lobby", 1);
+    server.emit("news", 2);
+    expect(await accepted.receive(1)).toEqual([{ event: "news", data: 2 }]);
+    await sleep(150);
+    expect(pending.messages).toEqual([]);
+    accepted.socket.destroy();
+    pending.socket.destroy();
+  });
+
+  test("refuses connections from other origins", async () => {
+    expect(await openConnection(port, "/private", ["Origin: https://evil.example"]).statusLine).toBe("HTTP/1.1 403 Forbidden");
+    expect(await openConnection(port, "/private").statusLine).toBe("HTTP/1.1 403 Forbidden");
+    const allowed = openConnection(port, "/private", ["Origin: https://example.com"]);
+    expect(await allowed.statusLine).toBe("HTTP/1.1 101 Switching Protocols");
+    allowed.socket.destroy();
+  });
+
+  test("throttles messages without setting HTTP headers", async () => {
+    const connection = openConnection(port, "/private", ["Origin: https://example.com"]);
+    await connection.statusLine;
+    connection.send({ event: "limited", id: 1 });
+    connection.send({ event: "limited", id: 2 });
+    expect(await connection.receive(2)).toEqual([
+      { event: "limited", data: "ok", id: 1 },
+      { event: "exception", data: { status: "error", statusCode: 429, message: "Too Many Requests" }, id: 2 },
+    ]);
+    connection.socket.destroy();
+  });
+});
+
+describe("Server-Sent Events", () => {
+  const stopped: string[] = [];
+
+  @Controller("/events")
+  class EventsController {
+    @Sse("/finite")
+    async *finite() {
+      yield { data: { n: 1 }, id: 1, event: "tick" };
+      yield "two\nlines";
+    }
+
+    @Sse("/idle", { heartbeat: 20 })
+    idle() {
+      return {
+        subscribe: (observer: { next(value: unknown): void }) => {
+          observer.next({ data: "open" });
+          return { unsubscribe: () => stopped.push("idle") };
+        },
+      };
+    }
+
+    @Sse("/slow")
+    async slow() {
+      await sleep(100);
+      return { subscribe: () => ({ unsubscribe: () => stopped.push("slow") }) };
+    }
+  }
+
+  @Module({ controllers: [EventsController] })
+  class EventsModule {}
+
+  let app: MiniFramework;
+  let port: number;
+
+  beforeAll(async () => {
+    app = new MiniFramework();
+    await app.registerModule(EventsModule);
+    port = ((await app.listen(0)).address() as AddressInfo).port;
+  });
+
+  afterAll(() => app.close());
+
+  test("streams the messages of an async iterable", async () => {
+    const response = await app.inject({ url: "/events/finite" });
+    expect(response.headers["content-type"]).toBe("text/event-stream");
+    expect(response.body).toBe('id: 1\nevent: tick\ndata: {"n":1}\n\ndata: two\ndata: lines\n\n');
+  });
+
+  test("sends heartbeats and stops an idle stream when the client disconnects", async () => {
+    const controller = new AbortController();
+    const response = await fetch(`http://127.0.0.1:${port}/events/idle`, { signal: controller.signal });
+    const reader = response.body!.getReader();
+    let text = "";
+    while (!text.includes(": heartbeat")) {
+      text += new TextDecoder().decode((await reader.read()).value);
+    }
+    expect(text.startsWith("data: open\n\n")).toBe(true);
+    controller.abort();
+    await sleep(100);
+    expect(stopped).toContain("idle");
+  });
+
+  test("stops the stream of a client that disconnected while the handler was resolving", async () => {
+    const controller = new AbortController();
+    const response = fetch(`http://127.0.0.1:${port}/events/slow`, { signal: controller.signal }).catch(() => undefined);
+    await sleep(20);
+    controller.abort();
+    await response;
+    await sleep(200);
+    expect(stopped).toContain("slow");
+  });
+});
+
+describe("SchedulerRegistry", () => {
+  test("runs a timeout paused before it was due once resumed", async () => {
+    const clock = new ManualClock();
+    const scheduler = new SchedulerRegistry(clock);
+    let runs = 0;
+    scheduler.addTimeout("once", 100, () => runs++);
+    scheduler.start();
+    await clock.advance(50);
+    scheduler.pauseJob("once");
+    await clock.advance(100);
+    expect(runs).toBe(0);
+    scheduler.resumeJob("once");
+    await clock.advance(1);
+    await clock.advance(500);
+    expect(runs).toBe(1);
+    await scheduler.stop();
+  });
+
+  test("waits for runs further away than the longest timer delay", async () => {
+    const delays: number[] = [];
+    const clock = new (class extends ManualClock {
+      setTimeout(callback: () => void, ms: number) {
+        delays.push(ms);
+        return super.setTimeout(callback, ms);
+      }
+    })(Date.UTC(2026, 0, 2));
+    const scheduler = new SchedulerRegistry(clock);
+    let runs = 0;
+    scheduler.addCronJob("yearly", "0 0 1 1 *", () => runs++, { timeZone: "UTC" });
+    scheduler.start();
+    expect(scheduler.getJob("yearly").nextRun).toEqual(new Date(Date.UTC(2027, 0, 1)));
+    await clock.advance(30 * 86_400_000);
+    expect(runs).toBe(0);
+    await clock.advance(Date.UTC(2027, 0, 1) - clock.now());
+    expect(runs).toBe(1);
+    expect(Math.max(...delays)).toBeLessThanOrEqual(2 ** 31 - 1);
+    await scheduler.stop();
+  });
+});
@@ -0,0 +1,413 @@
+import { Inject, Injectable, Logger } from "./core";
+
+// Clock class
+// Injectable source of time for the scheduler, replaced by a ManualClock in tests
+@Injectable()
+class Clock {
+  now(): number {
+    return Date.now();
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    return setTimeout(callback, ms);
+  }
+
+  clearTimeout(handle: unknown): void {
+    clearTimeout(handle as NodeJS.Timeout);
+  }
+}
+
+// ManualClock class
+// A clock that only moves when advanced, e.g. Test.createTestingModule(...).overrideProvider(Clock).useValue(new ManualClock())
+class ManualClock extends Clock {
+  private time: number;
+  private timers: { id: number; at: number; callback: () => void }[] = [];
+  private nextId = 0;
+
+  constructor(start: Date | number = 0) {
+    super();
+    this.time = new Date(start).getTime();
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const id = ++this.nextId;
+    this.timers.push({ id, at: this.time + Math.max(ms, 0), callback });
+    return id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers = this.timers.filter((timer) => timer.id !== handle);
+  }
+
+  // advance method
+  // Used to move the time forward, running the timers that are due in order
+  // Pending promises are settled before each timer, so async jobs that can complete do so before the next run
+  async advance(ms: number): Promise<void> {
+    const target = this.time + ms;
+    for (;;) {
+      await new Promise((resolve) => setImmediate(resolve));
+      const due = this.timers.filter((timer) => timer.at <= target).sort((a, b) => a.at - b.at || a.id - b.id)[0];
+      if (!due) {
+        break;
+      }
+      this.timers = this.timers.filter((timer) => timer !== due);
+      this.time = due.at;
+      due.callback();
+    }
+    this.time = target;
+  }
+}
+
+// CronExpression class
+// Used to compute the runs of a cron expression: [second] minute hour day-of-month month day-of-week
+// Fields accept *, lists, ranges and steps (e.g. "0 */5 * * * *"), months and days of the week also accept names
+// When both day fields are restricted, a day matching either of them matches (as with cron)
+class CronExpression {
+  private static ranges: [number, number][] = [
+    [0, 59],
+    [0, 59],
+    [0, 23],
+    [1, 31],
+    [1, 12],
+    [0, 7],
+  ];
+  private static names: Record<string, number> = Object.fromEntries([
+    ...["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"].map((name, index) => [name, index + 1]),
+    ...["sun", "mon", "tue", "wed", "thu", "fri", "sat"].map((name, index) => [name, index]),
+  ]);
+  private fields: Set<number>[];
+  private restrictedDays: boolean[];
+  private formatter?: Intl.DateTimeFormat;
+
+  constructor(private expression: string, timeZone?: string) {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== 5 && parts.length !== 6) {
+      throw new Error(`Invalid cron expression "${expression}": expected 5 or 6 fields`);
+    }
+    const fields = parts.length === 5 ? ["0", ...parts] : parts;
+    this.fields = fields.map((field, index) => this.parseField(field, CronExpression.ranges[index]));
+    // 7 is also Sunday
+    if (this.fields[5].has(7)) {
+      this.fields[5].add(0);
+    }
+    this.restrictedDays = [fields[3] !== "*" && fields[3] !== "?", fields[5] !== "*" && fields[5] !== "?"];
+    if (timeZone) {
+      const options = { timeZone, hourCycle: "h23", year: "numeric", month: "numeric", day: "numeric", hour: "numeric", minute: "numeric", second: "numeric", weekday: "short" } as const;
+      this.formatter = new Intl.DateTimeFormat("en-US", options);
+    }
+  }
+
+  // next method
+  // Used to get the first time strictly after the given one that matches the expression
+  next(after: Date): Date {
+    const [seconds, minutes, hours, , months] = this.fields;
+    let time = Math.floor(after.getTime() / 1000) * 1000 + 1000;
+    // Skips whole days, hours and minutes that cannot match, a few thousand steps cover several years
+    for (let step = 0; step < 10_000; step++) {
+      const date = this.getParts(new Date(time));
+      if (!months.has(date.month) || !this.matchesDay(date)) {
+        time += ((23 - date.hour) * 3600 + (59 - date.minute) * 60 + (60 - date.second)) * 1000;
+      } else if (!hours.has(date.hour)) {
+        time += ((59 - date.minute) * 60 + (60 - date.second)) * 1000;
+      } else if (!minutes.has(date.minute)) {
+        time += (60 - date.second) * 1000;
+      } else if (!seconds.has(date.second)) {
+        time += 1000;
+      } else {
+        return new Date(time);
+      }
+    }
+    throw new Error(`Cron expression "${this.expression}" has no upcoming run`);
+  }
+
+  private matchesDay(date: { day: number; weekday: number }): boolean {
+    const [dayOfMonth, dayOfWeek] = [this.fields[3].has(date.day), this.fields[5].has(date.weekday)];
+    return this.restrictedDays[0] && this.restrictedDays[1] ? dayOfMonth || dayOfWeek : dayOfMonth && dayOfWeek;
+  }
+
+  // getParts method
+  // Used to get the wall-clock time of a date, in the time zone of the expression or the local one
+  private getParts(date: Date) {
+    if (!this.formatter) {
+      return {
+        month: date.getMonth() + 1,
+        day: date.getDate(),
+        weekday: date.getDay(),
+        hour: date.getHours(),
+        minute: date.getMinutes(),
+        second: date.getSeconds(),
+      };
+    }
+    const parts = Object.fromEntries(this.formatter.formatToParts(date).map(({ type, value }) => [type, value]));
+    return {
+      month: Number(parts.month),
+      day: Number(parts.day),
+      weekday: CronExpression.names[parts.weekday.toLowerCase()],
+      hour: Number(parts.hour),
+      minute: Number(parts.minute),
+      second: Number(parts.second),
+    };
+  }
+
+  private parseField(field: string, [min, max]: [number, number]): Set<number> {
+    const values = new Set<number>();
+    for (const part of field.toLowerCase().split(",")) {
+      const [range, stepText] = part.split("/");
+      const step = stepText === undefined ? 1 : Number(stepText);
+      let [start, end] = [min, max];
+      if (range !== "*" && range !== "?") {
+        const [first, last] = range.split("-").map((value) => CronExpression.names[value] ?? Number(value));
+        [start, end] = [first, last ?? (stepText === undefined ? first : max)];
+      }
+      if (![start, end, step].every(Number.isInteger) || start < min || end > max || start > end || step < 1) {
+        throw new Error(`Invalid cron expression "${this.expression}": cannot parse "${field}"`);
+      }
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+    return values;
+  }
+}
+
+// Scheduled job options
+// name: The name of the job in the SchedulerRegistry (default: Class.method)
+// skipIfRunning: Skip a run while the previous one is still going
+// timeZone: The time zone cron expressions are evaluated in (default: the local one)
+interface ScheduleOptions {
+  name?: string;
+  skipIfRunning?: boolean;
+}
+
+interface CronOptions extends ScheduleOptions {
+  timeZone?: string;
+}
+
+type ScheduledJobType = "cron" | "interval" | "timeout";
+
+interface ScheduleMetadata {
+  type: ScheduledJobType;
+  schedule: string | number;
+  handlerName: string | symbol;
+  options: CronOptions;
+}
+
+// ScheduledJob
+// The state of a job, as listed by the SchedulerRegistry
+interface ScheduledJob {
+  name: string;
+  type: ScheduledJobType;
+  schedule: string | number;
+  paused: boolean;
+  running: boolean;
+  lastRun?: Date;
+  nextRun?: Date;
+}
+
+function createScheduleDecorator(type: ScheduledJobType) {
+  return (schedule: string | number, options: CronOptions = {}): MethodDecorator => {
+    return (target: any, key: string | symbol) => {
+      const schedules: ScheduleMetadata[] = Reflect.getMetadata("schedules", target) || [];
+      Reflect.defineMetadata("schedules", [...schedules, { type, schedule, handlerName: key, options }], target);
+    };
+  };
+}
+
+// Scheduling decorators
+// Used to run a provider method on a schedule, jobs start after bootstrap and stop on close
+// Cron: On a cron expression, e.g. @Cron("0 */5 * * * *", { timeZone: "Europe/Paris" })
+// Interval: Every `ms` milliseconds
+// Timeout: Once, `ms` milliseconds after bootstrap
+const Cron: (expression: string, options?: CronOptions) => MethodDecorator = createScheduleDecorator("cron");
+const Interval: (ms: number, options?: ScheduleOptions) => MethodDecorator = createScheduleDecorator("interval");
+const Timeout: (ms: number, options?: ScheduleOptions) => MethodDecorator = createScheduleDecorator("timeout");
+
+// Longest delay a timer accepts, 2^31-1 ms (about 24.8 days)
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+interface RegisteredJob extends ScheduledJob {
+  callback: () => unknown;
+  // Delay until the next run, undefined once a timeout has run
+  nextDelay: (lastRun?: Date) => number | undefined;
+  skipIfRunning: boolean;
+  runs: number;
+  handle?: unknown;
+}
+
+// SchedulerRegistry class
+// Injectable registry of the scheduled jobs, used to list, pause, resume, add and delete them at runtime
+// A failing run is logged, the job keeps its schedule
+@Injectable()
+class SchedulerRegistry {
+  private jobs = new Map<string, RegisteredJob>();
+  private runningJobs = new Set<Promise<void>>();
+  private started = false;
+  private logger = new Logger("Scheduler");
+
+  constructor(@Inject(Clock) private clock: Clock) {}
+
+  addCronJob(name: string, expression: string, callback: () => unknown, options: CronOptions = {}): void {
+    const cron = new CronExpression(expression, options.timeZone);
+    this.addJob(name, "cron", expression, callback, options, () => cron.next(new Date(this.clock.now())).getTime() - this.clock.now());
+  }
+
+  addInterval(name: string, ms: number, callback: () => unknown, options: ScheduleOptions = {}): void {
+    this.addJob(name, "interval", ms, callback, options, () => ms);
+  }
+
+  addTimeout(name: string, ms: number, callback: () => unknown, options: ScheduleOptions = {}): void {
+    // Due `ms` after it is first scheduled, a timeout paused or stopped past that time runs once it is back
+    let dueAt: number | undefined;
+    this.addJob(name, "timeout", ms, callback, options, (lastRun) => {
+      if (lastRun) {
+        return undefined;
+      }
+      dueAt ??= this.clock.now() + ms;
+      return Math.max(0, dueAt - this.clock.now());
+    });
+  }
+
+  // getJobs and getJob methods
+  // Used to read the state of the jobs
+  getJobs(): ScheduledJob[] {
+    return [...this.jobs.values()].map((job) => this.toScheduledJob(job));
+  }
+
+  getJob(name: string): ScheduledJob {
+    return this.toScheduledJob(this.findJob(name));
+  }
+
+  pauseJob(name: string): void {
+    const job = this.findJob(name);
+    job.paused = true;
+    this.unschedule(job);
+  }
+
+  resumeJob(name: string): void {
+    const job = this.findJob(name);
+    if (job.paused) {
+      job.paused = false;
+      this.schedule(job);
+    }
+  }
+
+  deleteJob(name: string): void {
+    this.unschedule(this.findJob(name));
+    this.jobs.delete(name);
+  }
+
+  // start method
+  // Used to schedule every job, called by the framework once the application is bootstrapped
+  start(): void {
+    this.started = true;
+    this.jobs.forEach((job) => this.schedule(job));
+  }
+
+  // stop method
+  // Used to stop scheduling jobs, resolves once the runs in progress are over
+  async stop(): Promise<void> {
+    this.started = false;
+    this.jobs.forEach((job) => this.unschedule(job));
+    await Promise.all(this.runningJobs);
+  }
+
+  private addJob(name: string, type: ScheduledJobType, schedule: string | number, callback: () => unknown, options: ScheduleOptions, nextDelay: RegisteredJob["nextDelay"]): void {
+    if (this.jobs.has(name)) {
+      throw new Error(`A scheduled job named "${name}" already exists`);
+    }
+    const job: RegisteredJob = { name, type, schedule, paused: false, running: false, callback, nextDelay, skipIfRunning: !!options.skipIfRunning, runs: 0 };
+    this.schedule(job);
+    this.jobs.set(name, job);
+  }
+
+  private findJob(name: string): RegisteredJob {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`No scheduled job named "${name}"`);
+    }
+    return job;
+  }
+
+  private schedule(job: RegisteredJob): void {
+    if (!this.started || job.paused || job.handle !== undefined) {
+      return;
+    }
+    const delay = job.nextDelay(job.lastRun);
+    if (delay === undefined) {
+      job.nextRun = undefined;
+      return;
+    }
+    job.nextRun = new Date(this.clock.now() + delay);
+    this.wait(job, job.nextRun.getTime());
+  }
+
+  // wait method
+  // Used to run a job at a given time, waiting in steps of at most MAX_TIMER_DELAY
+  // Node and Bun fire longer timers after 1ms, e.g. the next run of a yearly cron job
+  private wait(job: RegisteredJob, at: number): void {
+    job.handle = this.clock.setTimeout(() => {
+      job.handle = undefined;
+      if (this.clock.now() < at) {
+        this.wait(job, at);
+        return;
+      }
+      // The callback is started asynchronously, so its duration does not shift the next run
+      this.run(job);
+      this.schedule(job);
+    }, Math.min(at - this.clock.now(), MAX_TIMER_DELAY));
+  }
+
+  private unschedule(job: RegisteredJob): void {
+    if (job.handle !== undefined) {
+      this.clock.clearTimeout(job.handle);
+      job.handle = undefined;
+    }
+    job.nextRun = undefined;
+  }
+
+  private run(job: RegisteredJob): void {
+    if (job.skipIfRunning && job.runs > 0) {
+      this.logger.warn(`Skipped ${job.name}, the previous run is still going`);
+      return;
+    }
+    job.runs++;
+    job.running = true;
+    job.lastRun = new Date(this.clock.now());
+    const run: Promise<void> = Promise.resolve()
+      .then(() => job.callback())
+      .then(
+        () => undefined,
+        (error) => this.logger.error(`Scheduled job ${job.name} failed`, { error })
+      )
+      .finally(() => {
+        job.runs--;
+        job.running = job.runs > 0;
+        this.runningJobs.delete(run);
+      });
+    this.runningJobs.add(run);
+  }
+
+  private toScheduledJob({ name, type, schedule, paused, running, lastRun, nextRun }: RegisteredJob): ScheduledJob {
+    return { name, type, schedule, paused, running, lastRun, nextRun };
+  }
+}
+
+export {
+  Clock,
+  ManualClock,
+  Cron,
+  Interval,
+  Timeout,
+  SchedulerRegistry,
+};
+
+export type {
+  ScheduleOptions,
+  CronOptions,
+  ScheduleMetadata,
+  ScheduledJob,
+};
@@ -0,0 +1,134 @@
+import { Headers, createMethodDecorator, type Pipe } from "./core";
+
+// Server-Sent Events
+// SseMessage: A message of an @Sse stream, a value without data is sent as the data of a message
+// data: Sent as is when it is a string, as JSON otherwise
+// event: The event name listened to by the browser, "message" when omitted
+// id: Sent back by the browser as the Last-Event-ID header when it reconnects, see @LastEventId
+// retry: The delay before the browser reconnects, in milliseconds
+interface SseMessage<T = unknown> {
+  data: T;
+  event?: string;
+  id?: string | number;
+  retry?: number;
+}
+
+// ObservableLike
+// Anything with a subscribe method as in RxJS, returning a subscription or a teardown function
+interface ObservableLike<T = unknown> {
+  subscribe(observer: { next(value: T): void; error(error: unknown): void; complete(): void }): { unsubscribe(): void } | (() => void) | void;
+}
+
+// Sse options
+// heartbeat: The delay between the comments sent to keep proxies from closing an idle stream, in milliseconds (default: 15s, 0 to disable)
+interface SseOptions {
+  heartbeat?: number;
+}
+
+// Sse decorator
+// Used to define a GET route streaming Server-Sent Events, its handler returns an AsyncIterable or an ObservableLike of messages
+// Guards and interceptors run before the stream opens, which stops when the client disconnects
+function Sse(path?: string, options: SseOptions = {}): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol, descriptor: PropertyDescriptor): void => {
+    createMethodDecorator("get")(path)(target, propertyKey, descriptor);
+    Reflect.defineMetadata("sse", { heartbeat: options.heartbeat ?? 15_000 }, target, propertyKey);
+  };
+}
+
+// formatServerSentEvent function
+// Used to serialize a message in the text/event-stream format, multiline data is sent as several data fields
+function formatServerSentEvent(value: unknown): string {
+  const message: SseMessage = typeof value === "object" && value !== null && "data" in value ? (value as SseMessage) : { data: value };
+  let output = "";
+  if (message.id !== undefined) {
+    output += `id: ${String(message.id).replace(/[\r\n]/g, "")}\n`;
+  }
+  if (message.event) {
+    output += `event: ${message.event.replace(/[\r\n]/g, "")}\n`;
+  }
+  if (message.retry !== undefined) {
+    output += `retry: ${message.retry}\n`;
+  }
+  const data = typeof message.data === "string" ? message.data : JSON.stringify(message.data) ?? "";
+  return `${output}${data
+    .split(/\r\n|\r|\n/)
+    .map((line) => `data: ${line}\n`)
+    .join("")}\n`;
+}
+
+// observableToAsyncIterable function
+// Used to iterate over the values of an observable, values emitted faster than they are read are queued
+// Returning from the iteration unsubscribes from the observable
+function observableToAsyncIterable<T>(observable: ObservableLike<T>): AsyncIterable<T> {
+  return {
+    [Symbol.asyncIterator](): AsyncIterator<T> {
+      const queue: T[] = [];
+      let waiting: { resolve: (result: IteratorResult<T>) => void; reject: (error: unknown) => void } | undefined;
+      let failure: { error: unknown } | undefined;
+      let complete = false;
+      const settle = () => {
+        const pending = waiting;
+        if (!pending) {
+          return;
+        }
+        if (queue.length) {
+          waiting = undefined;
+          pending.resolve({ value: queue.shift()!, done: false });
+        } else if (failure) {
+          waiting = undefined;
+          pending.reject(failure.error);
+        } else if (complete) {
+          waiting = undefined;
+          pending.resolve({ value: undefined, done: true });
+        }
+      };
+      const subscription = observable.subscribe({
+        next: (value) => {
+          queue.push(value);
+          settle();
+        },
+        error: (error) => {
+          failure = { error };
+          settle();
+        },
+        complete: () => {
+          complete = true;
+          settle();
+        },
+      });
+      return {
+        next: () =>
+          new Promise<IteratorResult<T>>((resolve, reject) => {
+            waiting = { resolve, reject };
+            settle();
+          }),
+        return: async () => {
+          complete = true;
+          queue.length = 0;
+          if (typeof subscription === "function") subscription();
+          else subscription?.unsubscribe();
+          settle();
+          return { value: undefined, done: true };
+        },
+      };
+    },
+  };
+}
+
+// LastEventId: Decorator to inject the id of the last message an @Sse client received before it reconnected, if any
+function LastEventId(...pipes: Pipe[]): ParameterDecorator {
+  return Headers("last-event-id", ...pipes);
+}
+
+export {
+  Sse,
+  formatServerSentEvent,
+  observableToAsyncIterable,
+  LastEventId,
+};
+
+export type {
+  SseMessage,
+  ObservableLike,
+  SseOptions,
+};
@@ -0,0 +1,132 @@
+import {
+  Container,
+  ExpressAdapter,
+  Module,
+  type CanActivate,
+  type Constructor,
+  type ExceptionFilter,
+  type HttpAdapter,
+  type Interceptor,
+  type OverrideProvider,
+  type PipeTransform,
+  type Provider,
+  type Token,
+} from "./core";
+import { MiniFramework, type InjectRequest, type InjectResponse } from "./application";
+
+// Testing
+// Test.createTestingModule builds an application in process, with providers replaced by test doubles
+interface TestingModuleMetadata {
+  imports?: Constructor[];
+  controllers?: Constructor[];
+  providers?: Provider<any>[];
+}
+
+// TestingModuleOptions
+// httpAdapter: The adapter requests are dispatched through (default: a new ExpressAdapter)
+interface TestingModuleOptions {
+  httpAdapter?: HttpAdapter;
+}
+
+// OverrideBy
+// Returned by the override methods of TestingModuleBuilder, chooses what replaces the token
+interface OverrideBy {
+  useValue(value: unknown): TestingModuleBuilder;
+  useClass(type: Constructor): TestingModuleBuilder;
+  useFactory(options: { factory: (...args: any[]) => unknown; inject?: Token[] }): TestingModuleBuilder;
+}
+
+class TestingModuleBuilder {
+  private overrides = new Map<Token, OverrideProvider>();
+
+  constructor(private metadata: TestingModuleMetadata) {}
+
+  // overrideProvider method
+  // Used to replace any provider token, e.g. ConfigService or a repository
+  overrideProvider(token: Token): OverrideBy {
+    return {
+      useValue: (value) => this.override(token, { useValue: value }),
+      useClass: (type) => this.override(token, { useClass: type }),
+      useFactory: (options) => this.override(token, { useFactory: options }),
+    };
+  }
+
+  // overrideGuard, overrideFilter, overridePipe and overrideInterceptor methods
+  // Guards, filters, pipes and interceptors are resolved by class, so they are overridden like providers
+  overrideGuard(guard: Constructor<CanActivate>): OverrideBy {
+    return this.overrideProvider(guard);
+  }
+
+  overrideFilter(filter: Constructor<ExceptionFilter>): OverrideBy {
+    return this.overrideProvider(filter);
+  }
+
+  overridePipe(pipe: Constructor<PipeTransform>): OverrideBy {
+    return this.overrideProvider(pipe);
+  }
+
+  overrideInterceptor(interceptor: Constructor<Interceptor>): OverrideBy {
+    return this.overrideProvider(interceptor);
+  }
+
+  // compile method
+  // Used to register the modules with the overrides applied, on the adapter the application runs on (express by default)
+  async compile(options: TestingModuleOptions = {}): Promise<TestingModule> {
+    const container = new Container();
+    this.overrides.forEach((provider, token) => container.override(token, provider));
+
+    const app = new MiniFramework(options.httpAdapter ?? new ExpressAdapter(), container);
+    class RootTestModule {}
+    Module(this.metadata)(RootTestModule);
+    await app.registerModule(RootTestModule);
+    container.registerOverrides();
+    await app.init();
+
+    return new TestingModule(app);
+  }
+
+  private override(token: Token, provider: OverrideProvider): TestingModuleBuilder {
+    this.overrides.set(token, provider);
+    return this;
+  }
+}
+
+class TestingModule {
+  constructor(readonly app: MiniFramework) {}
+
+  // get method
+  // Used to get the resolved instance of a provider or controller
+  get<T>(token: Token<T>): T {
+    return this.app.get(token);
+  }
+
+  // request method
+  // Used to send a request through the application in memory
+  request(request: InjectRequest): Promise<InjectResponse> {
+    return this.app.inject(request);
+  }
+
+  // close method
+  // Used to call the shutdown hooks of the providers
+  close(): Promise<void> {
+    return this.app.close();
+  }
+}
+
+const Test = {
+  createTestingModule(metadata: TestingModuleMetadata): TestingModuleBuilder {
+    return new TestingModuleBuilder(metadata);
+  },
+};
+
+export {
+  TestingModuleBuilder,
+  TestingModule,
+  Test,
+};
+
+export type {
+  TestingModuleMetadata,
+  TestingModuleOptions,
+  OverrideBy,
+};
@@ -0,0 +1,198 @@
+import {
+  HttpAdapterHost,
+  Inject,
+  Injectable,
+  Module,
+  Reflector,
+  TooManyRequestsException,
+  createDecorator,
+  type CanActivate,
+  type DynamicModule,
+  type ExecutionContext,
+  type FrameworkRequest,
+  type OnModuleDestroy,
+} from "./core";
+
+// Throttler limit
+// name: Used to override or skip the limit with @Throttle and @SkipThrottle (default: "default")
+// ttl: The window, in milliseconds, limit: The number of requests allowed in a window
+interface ThrottlerLimit {
+  name?: string;
+  ttl: number;
+  limit: number;
+}
+
+// ThrottlerStorage interface
+// Counts the hits of a key in its current window, implement it to share the counts between instances
+interface ThrottlerStorage {
+  increment(key: string, ttl: number): Promise<{ totalHits: number; timeToExpire: number }>;
+}
+
+// MemoryThrottlerStorage class
+// Fixed windows kept in memory, a key starts a new window once its window expired
+// Expired windows of keys no longer incremented are removed every sweepInterval milliseconds, until the application closes
+class MemoryThrottlerStorage implements ThrottlerStorage, OnModuleDestroy {
+  private windows = new Map<string, { hits: number; expiresAt: number }>();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(sweepInterval = 60_000) {
+    // Does not keep the process alive
+    this.sweepTimer = setInterval(() => this.sweep(), sweepInterval).unref();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.sweepTimer);
+  }
+
+  async increment(key: string, ttl: number): Promise<{ totalHits: number; timeToExpire: number }> {
+    const now = Date.now();
+    let window = this.windows.get(key);
+    if (!window || window.expiresAt <= now) {
+      window = { hits: 0, expiresAt: now + ttl };
+      this.windows.set(key, window);
+    }
+    window.hits++;
+    return { totalHits: window.hits, timeToExpire: window.expiresAt - now };
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    this.windows.forEach((window, key) => window.expiresAt <= now && this.windows.delete(key));
+  }
+}
+
+// Throttler module options
+// throttlers: The limits applied to every throttled route
+// storage: Where the hits are counted (default: in memory)
+// getTracker: Identifies the client, e.g. by user id or API key (default: the IP address)
+interface ThrottlerModuleOptions {
+  throttlers: ThrottlerLimit[];
+  storage?: ThrottlerStorage;
+  getTracker?: (req: FrameworkRequest) => string | Promise<string>;
+  isGlobal?: boolean;
+}
+
+const THROTTLER_OPTIONS = Symbol("THROTTLER_OPTIONS");
+// The storage of the hits, shared by every ThrottlerGuard of the application
+const THROTTLER_STORAGE = Symbol("THROTTLER_STORAGE");
+
+// Throttle decorator
+// Used to override the limits of a controller or a route, by name, e.g. @Throttle({ default: { limit: 3, ttl: 60_000 } })
+function Throttle(limits: Record<string, Partial<Omit<ThrottlerLimit, "name">>>): MethodDecorator & ClassDecorator {
+  return createDecorator("throttler:limits", limits) as MethodDecorator & ClassDecorator;
+}
+
+// SkipThrottle decorator
+// Used to skip the limits of a controller or a route, all of them or by name, e.g. @SkipThrottle({ burst: true })
+function SkipThrottle(skip: Record<string, boolean> | boolean = true): MethodDecorator & ClassDecorator {
+  return createDecorator("throttler:skip", skip) as MethodDecorator & ClassDecorator;
+}
+
+// ThrottlerException
+// Sent with a 429 status when a client goes over a limit
+class ThrottlerException extends TooManyRequestsException {
+  constructor(message = "Too Many Requests") {
+    super(message);
+  }
+}
+
+// ThrottlerGuard class
+// Used to limit the number of requests of a client to a route, e.g. @UseGuards(ThrottlerGuard)
+// Sets the X-RateLimit-Limit, X-RateLimit-Remaining and X-RateLimit-Reset headers, suffixed by the name of non-default limits,
+// and Retry-After when the client goes over a limit
+// In a gateway, the messages of a client are limited per handler, without headers
+// getTracker can be overridden in a subclass to identify clients differently
+@Injectable()
+class ThrottlerGuard implements CanActivate {
+  constructor(
+    @Inject(THROTTLER_OPTIONS) private options: ThrottlerModuleOptions,
+    @Inject(Reflector) private reflector: Reflector,
+    @Inject(HttpAdapterHost) protected adapterHost: HttpAdapterHost,
+    @Inject(THROTTLER_STORAGE) protected storage: ThrottlerStorage
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    const skip = this.reflector.getAllAndOverride<Record<string, boolean> | boolean>("throttler:skip", targets);
+    if (skip === true) {
+      return true;
+    }
+    const overrides = this.reflector.getAllAndOverride<Record<string, Partial<ThrottlerLimit>>>("throttler:limits", targets) || {};
+    const { httpAdapter } = this.adapterHost;
+    const req = context.getRequest<FrameworkRequest>();
+    const res = context.getResponse();
+    // In a gateway, the response is the client, which has no headers
+    const isHttp = context.getType() === "http";
+    const tracker = await this.getTracker(req);
+    // Handlers of controllers with the same name, in different modules, are told apart by their route
+    const route = isHttp
+      ? `${httpAdapter.getRequestMethod(req)} ${httpAdapter.getRoutePath(req) ?? ""} ${context.getClass().name}.${context.getHandler().name}`
+      : `WS ${context.switchToWs().getClient().path} ${context.getClass().name}.${context.getHandler().name}`;
+
+    for (const throttler of this.options.throttlers) {
+      const name = throttler.name || "default";
+      if (skip && skip[name]) {
+        continue;
+      }
+      const { limit, ttl } = { ...throttler, ...overrides[name] };
+      const key = `${name}:${route}:${tracker}`;
+      const { totalHits, timeToExpire } = await this.storage.increment(key, ttl);
+      const suffix = name === "default" ? "" : `-${name}`;
+      const secondsToExpire = Math.ceil(timeToExpire / 1000);
+      if (isHttp) {
+        httpAdapter.setHeader(res, `X-RateLimit-Limit${suffix}`, limit);
+        httpAdapter.setHeader(res, `X-RateLimit-Remaining${suffix}`, Math.max(limit - totalHits, 0));
+        httpAdapter.setHeader(res, `X-RateLimit-Reset${suffix}`, secondsToExpire);
+      }
+      if (totalHits > limit) {
+        if (isHttp) {
+          httpAdapter.setHeader(res, "Retry-After", secondsToExpire);
+        }
+        throw new ThrottlerException();
+      }
+    }
+    return true;
+  }
+
+  // getTracker method
+  // Used to identify the client a request comes from
+  // In a gateway, the request is the one the client upgraded, read directly from the socket
+  protected getTracker(req: FrameworkRequest): string | Promise<string> {
+    return this.options.getTracker ? this.options.getTracker(req) : this.adapterHost.httpAdapter.getRequestIp(req) || req.socket?.remoteAddress || "";
+  }
+}
+
+// ThrottlerModule
+// ThrottlerModule.forRoot provides ThrottlerGuard with the given limits
+// The storage is created with the application, so that its hits are shared and its sweep stops on close
+@Module({})
+class ThrottlerModule {
+  static forRoot(options: ThrottlerModuleOptions | ThrottlerLimit[]): DynamicModule {
+    const resolved = Array.isArray(options) ? { throttlers: options } : options;
+    return {
+      module: ThrottlerModule,
+      global: resolved.isGlobal,
+      providers: [
+        { provide: THROTTLER_OPTIONS, useValue: resolved },
+        { provide: THROTTLER_STORAGE, useFactory: () => resolved.storage || new MemoryThrottlerStorage() },
+        ThrottlerGuard,
+      ],
+      exports: [THROTTLER_OPTIONS, THROTTLER_STORAGE, ThrottlerGuard],
+    };
+  }
+}
+
+export {
+  MemoryThrottlerStorage,
+  Throttle,
+  SkipThrottle,
+  ThrottlerException,
+  ThrottlerGuard,
+  ThrottlerModule,
+};
+
+export type {
+  ThrottlerLimit,
+  ThrottlerStorage,
+  ThrottlerModuleOptions,
+};
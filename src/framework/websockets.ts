@@ -0,0 +1,429 @@
+import { IncomingMessage, STATUS_CODES, type Server } from "http";
+import { Duplex } from "stream";
+import { createHash, randomUUID } from "crypto";
+import { addParamMetadata, compileRoutePattern, createRouteParamDecorator, normalizeRoutePath } from "./core";
+
+// WebSocket gateway options
+// path: The path clients connect to, e.g. ws://localhost:3000/chat (default: "/")
+// maxPayload: The largest message accepted, in bytes, larger ones close the connection (default: 1mb)
+// origins: The values of the Origin header accepted, e.g. ["https://example.com"], other connections are refused with a 403 (default: any)
+interface WebSocketGatewayOptions {
+  path?: string;
+  maxPayload?: number;
+  origins?: string[];
+}
+
+// WebSocketGateway decorator
+// Used to define a gateway, listed in the gateways of a module, whose @SubscribeMessage methods handle the messages
+// of the clients connected to its path once the application listens
+// Gateways are singletons resolved in the scope of their module, they can inject its providers
+function WebSocketGateway(options: WebSocketGatewayOptions = {}): ClassDecorator {
+  return (target: any) => {
+    Reflect.defineMetadata("gateway", { path: options.path || "/", maxPayload: options.maxPayload ?? 1024 * 1024, origins: options.origins ?? [] }, target);
+  };
+}
+
+// SubscribeMessage decorator
+// Used to handle the messages of an event, a value returned by the handler is sent back to the client with the same event
+function SubscribeMessage(event: string): MethodDecorator {
+  return (target: Object, propertyKey: string | symbol) => {
+    Reflect.defineMetadata("message", event, target, propertyKey);
+  };
+}
+
+// MessageBody: Decorator to inject the data of the message, or one of its properties
+// Pipes (or Zod schemas) passed to it validate and transform the data
+const MessageBody = createRouteParamDecorator("message");
+
+// ConnectedSocket: Decorator to inject the WsClient that sent the message
+function ConnectedSocket(): ParameterDecorator {
+  return (target: Object, propertyKey: string | symbol | undefined, parameterIndex: number): void => {
+    addParamMetadata(target, propertyKey, { index: parameterIndex, type: "socket" });
+  };
+}
+
+// Gateway lifecycle hook interfaces
+// OnGatewayInit: Called with the server once the modules are initialized, before onApplicationBootstrap
+// OnGatewayConnection: Called when a client connects, with the HTTP request it upgraded, throw to refuse it
+// OnGatewayDisconnect: Called when a client is gone, whichever side closed the connection
+interface OnGatewayInit {
+  afterInit(server: WsServer): any;
+}
+
+interface OnGatewayConnection {
+  handleConnection(client: WsClient, request: IncomingMessage): any;
+}
+
+interface OnGatewayDisconnect {
+  handleDisconnect(client: WsClient): any;
+}
+
+// WsMessage
+// The JSON messages exchanged with the clients, e.g. { "event": "chat", "data": "hello" }
+// id: Set by the client to match a reply or an exception with the message it answers, sent back as is
+interface WsMessage<T = any> {
+  event: string;
+  data?: T;
+  id?: string | number;
+}
+
+// WsException class
+// Thrown by gateway handlers, guards and pipes to send an "exception" message to the client
+// error: A message, sent as { status: "error", message }, or the data of the exception message
+class WsException extends Error {
+  constructor(private error: string | Record<string, unknown>) {
+    super(typeof error === "string" ? error : String(error.message ?? "WebSocket exception"));
+    this.name = new.target.name;
+  }
+
+  getError(): Record<string, unknown> {
+    return typeof this.error === "string" ? { status: "error", message: this.error } : this.error;
+  }
+}
+
+// WsClient class
+// A client connected to a gateway, speaking the WebSocket protocol (RFC 6455) over the upgraded socket
+// Only text messages are supported, binary ones close the connection
+// data: State kept for the duration of the connection, e.g. the user authenticated in handleConnection
+class WsClient {
+  readonly id = randomUUID();
+  readonly rooms = new Set<string>();
+  readonly data: Record<string, any> = {};
+  private buffer: Buffer = Buffer.alloc(0);
+  private fragments: Buffer[] = [];
+  private fragmentOpcode?: number;
+  private closed = false;
+
+  constructor(
+    readonly request: IncomingMessage,
+    readonly path: string,
+    private socket: Duplex,
+    private maxPayload: number,
+    private onText: (text: string) => void
+  ) {
+    socket.on("data", (chunk: Buffer) => this.receive(chunk));
+    socket.on("error", () => socket.destroy());
+    socket.on("close", () => {
+      this.closed = true;
+    });
+  }
+
+  get isOpen(): boolean {
+    return !this.closed;
+  }
+
+  // send method
+  // Used to send a message to the client, ignored once the connection is closed
+  send(event: string, data?: unknown, id?: WsMessage["id"]): void {
+    this.sendFrame(0x1, Buffer.from(JSON.stringify({ event, data, ...(id !== undefined && { id }) })));
+  }
+
+  // join and leave methods
+  // Used to add the client to a room, or remove it, to broadcast to the clients of the room with server.to(room)
+  join(room: string): void {
+    this.rooms.add(room);
+  }
+
+  leave(room: string): void {
+    this.rooms.delete(room);
+  }
+
+  // close method
+  // Used to close the connection with a close code, e.g. 1008 when the client is not allowed
+  close(code = 1000, reason = ""): void {
+    if (this.closed) {
+      return;
+    }
+    const reasonBuffer = Buffer.from(reason);
+    const payload = Buffer.alloc(2 + reasonBuffer.length);
+    payload.writeUInt16BE(code);
+    reasonBuffer.copy(payload, 2);
+    this.sendFrame(0x8, payload);
+    this.closed = true;
+    this.socket.end();
+    // Clients are expected to close the TCP connection once they got the close frame
+    setTimeout(() => this.socket.destroy(), 1000).unref();
+  }
+
+  // onClose method
+  // Used to run a callback once the connection is closed
+  onClose(callback: () => void): void {
+    this.socket.once("close", callback);
+  }
+
+  // receive method
+  // Used to read the frames of a chunk, a frame can span several chunks
+  private receive(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    while (!this.closed) {
+      const frame = this.readFrame();
+      if (!frame) {
+        return;
+      }
+      this.handleFrame(frame.fin, frame.opcode, frame.payload);
+    }
+  }
+
+  private readFrame(): { fin: boolean; opcode: number; payload: Buffer } | undefined {
+    if (this.buffer.length < 2) {
+      return undefined;
+    }
+    const fin = (this.buffer[0] & 0x80) !== 0;
+    const opcode = this.buffer[0] & 0x0f;
+    let length = this.buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (this.buffer.length < 4) return undefined;
+      length = this.buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (this.buffer.length < 10) return undefined;
+      const bigLength = this.buffer.readBigUInt64BE(2);
+      length = bigLength > BigInt(this.maxPayload) ? Infinity : Number(bigLength);
+      offset = 10;
+    }
+    if ((this.buffer[1] & 0x80) === 0) {
+      this.close(1002, "Frames from clients must be masked");
+      return undefined;
+    }
+    if (length > this.maxPayload) {
+      this.close(1009, "Message too big");
+      return undefined;
+    }
+    if (this.buffer.length < offset + 4 + length) {
+      return undefined;
+    }
+    const mask = this.buffer.subarray(offset, offset + 4);
+    const payload = Buffer.from(this.buffer.subarray(offset + 4, offset + 4 + length));
+    for (let index = 0; index < payload.length; index++) {
+      payload[index] ^= mask[index % 4];
+    }
+    this.buffer = this.buffer.subarray(offset + 4 + length);
+    return { fin, opcode, payload };
+  }
+
+  private handleFrame(fin: boolean, opcode: number, payload: Buffer): void {
+    if (opcode >= 0x8 && (!fin || payload.length > 125)) {
+      this.close(1002, "Invalid control frame");
+      return;
+    }
+    switch (opcode) {
+      case 0x0:
+      case 0x1:
+      case 0x2: {
+        // A message is a text or binary frame, followed by continuation frames until fin is set
+        if (opcode === 0x0 ? this.fragmentOpcode === undefined : this.fragmentOpcode !== undefined) {
+          this.close(1002, "Unexpected continuation frame");
+          return;
+        }
+        const messageOpcode = this.fragmentOpcode ?? opcode;
+        this.fragments.push(payload);
+        if (this.fragments.reduce((length, fragment) => length + fragment.length, 0) > this.maxPayload) {
+          this.close(1009, "Message too big");
+          return;
+        }
+        if (!fin) {
+          this.fragmentOpcode = messageOpcode;
+          return;
+        }
+        const message = Buffer.concat(this.fragments);
+        this.fragments = [];
+        this.fragmentOpcode = undefined;
+        if (messageOpcode === 0x2) {
+          this.close(1003, "Binary messages are not supported");
+          return;
+        }
+        this.onText(message.toString("utf8"));
+        return;
+      }
+      case 0x8:
+        this.close(payload.length >= 2 ? payload.readUInt16BE(0) : 1000);
+        return;
+      case 0x9:
+        this.sendFrame(0xa, payload);
+        return;
+      case 0xa:
+        return;
+      default:
+        this.close(1002, "Unknown opcode");
+    }
+  }
+
+  private sendFrame(opcode: number, payload: Buffer): void {
+    if (this.closed) {
+      return;
+    }
+    let header: Buffer;
+    if (payload.length < 126) {
+      header = Buffer.from([0x80 | opcode, payload.length]);
+    } else if (payload.length < 65536) {
+      header = Buffer.alloc(4);
+      header[1] = 126;
+      header.writeUInt16BE(payload.length, 2);
+    } else {
+      header = Buffer.alloc(10);
+      header[1] = 127;
+      header.writeBigUInt64BE(BigInt(payload.length), 2);
+    }
+    header[0] = 0x80 | opcode;
+    this.socket.write(Buffer.concat([header, payload]));
+  }
+}
+
+// WsGatewayHandlers
+// How a gateway handles its clients, registered by the framework for each @WebSocketGateway
+// connect: Resolves to false when the gateway refused the client, its messages and disconnection are then ignored
+interface WsGatewayHandlers {
+  connect(client: WsClient): Promise<boolean>;
+  message(client: WsClient, message: WsMessage): Promise<void>;
+  disconnect(client: WsClient): Promise<void>;
+}
+
+// WsServer class
+// Injectable, accepts the WebSocket connections of the gateways on the server created by listen,
+// and broadcasts to their clients, e.g. server.to("room:42").emit("message", data) from any provider
+// A message that is not JSON with an event is answered with an "exception" message
+class WsServer {
+  // clients: The clients accepted by their gateway, connections: Every open connection, including the ones being accepted
+  private clients = new Set<WsClient>();
+  private connections = new Set<WsClient>();
+  private gateways: (Required<WebSocketGatewayOptions> & { pattern: RegExp; handlers: WsGatewayHandlers })[] = [];
+
+  // getClients method
+  // Used to list the connected clients, only the ones in the room when given
+  getClients(room?: string): WsClient[] {
+    return [...this.clients].filter((client) => room === undefined || client.rooms.has(room));
+  }
+
+  // emit method
+  // Used to send a message to every connected client, whatever its gateway
+  // Clients are only sent messages once handleConnection accepted them
+  emit(event: string, data?: unknown): void {
+    for (const client of this.clients) {
+      client.send(event, data);
+    }
+  }
+
+  // to method
+  // Used to send a message to the clients in any of the rooms
+  to(...rooms: string[]): { emit(event: string, data?: unknown): void } {
+    return {
+      emit: (event, data) => {
+        for (const client of this.clients) {
+          if (rooms.some((room) => client.rooms.has(room))) {
+            client.send(event, data);
+          }
+        }
+      },
+    };
+  }
+
+  // addGateway method
+  // Used by the framework to handle the connections to the path of a gateway
+  addGateway(options: Required<WebSocketGatewayOptions>, handlers: WsGatewayHandlers): void {
+    const duplicate = this.gateways.find((gateway) => normalizeRoutePath(gateway.path) === normalizeRoutePath(options.path));
+    if (duplicate) {
+      throw new Error(`Duplicate gateway path ${options.path}, a gateway is already attached to ${duplicate.path}`);
+    }
+    this.gateways.push({ ...options, pattern: compileRoutePattern(options.path), handlers });
+  }
+
+  // attach method
+  // Used by the framework to accept the upgrade requests of the HTTP server
+  attach(server: Server): void {
+    server.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => this.handleUpgrade(server, req, socket, head));
+  }
+
+  // close method
+  // Used by the framework to close every connection when the application shuts down
+  close(): void {
+    for (const client of this.connections) {
+      client.close(1001, "Server shutting down");
+    }
+  }
+
+  private handleUpgrade(server: Server, req: IncomingMessage, socket: Duplex, head: Buffer): void {
+    const pathname = (req.url || "/").split("?")[0];
+    const gateway = this.gateways.find(({ pattern }) => pattern.test(pathname));
+    if (!gateway) {
+      // Another upgrade listener, e.g. of a WebSocket library, may accept it
+      if (server.listenerCount("upgrade") === 1) {
+        this.refuse(socket, 404);
+      }
+      return;
+    }
+    const key = req.headers["sec-websocket-key"];
+    if (req.headers.upgrade?.toLowerCase() !== "websocket" || !key || req.headers["sec-websocket-version"] !== "13") {
+      this.refuse(socket, 400);
+      return;
+    }
+    // Keeps the pages of other sites from connecting with the cookies of the user
+    if (gateway.origins.length && !gateway.origins.includes(req.headers.origin ?? "")) {
+      this.refuse(socket, 403);
+      return;
+    }
+
+    const accept = createHash("sha1").update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest("base64");
+    socket.write(["HTTP/1.1 101 Switching Protocols", "Upgrade: websocket", "Connection: Upgrade", `Sec-WebSocket-Accept: ${accept}`, "", ""].join("\r\n"));
+
+    // Messages are handled once handleConnection is done, and not at all when it refused the client
+    // A message is handled once the previous one is, so the handlers of a client finish in the order messages came in
+    // (the message handler never rejects, exceptions are sent to the client)
+    let accepted = Promise.resolve(false);
+    let previous: Promise<unknown> = Promise.resolve();
+    const client = new WsClient(req, gateway.path, socket, gateway.maxPayload, (text) => {
+      const message = this.parseMessage(text);
+      if (!message) {
+        client.send("exception", { status: "error", message: "Invalid message, expected JSON with an event" });
+        return;
+      }
+      previous = Promise.all([accepted, previous]).then(([isAccepted]) => (isAccepted && client.isOpen ? gateway.handlers.message(client, message) : undefined));
+    });
+    this.connections.add(client);
+    client.onClose(() => {
+      this.connections.delete(client);
+      this.clients.delete(client);
+      accepted.then((isAccepted) => (isAccepted ? gateway.handlers.disconnect(client) : undefined));
+    });
+    accepted = gateway.handlers.connect(client).then((isAccepted) => {
+      if (isAccepted && client.isOpen) {
+        this.clients.add(client);
+      }
+      return isAccepted;
+    });
+    if (head.length) {
+      socket.unshift(head);
+    }
+  }
+
+  private parseMessage(text: string): WsMessage | undefined {
+    try {
+      const message = JSON.parse(text);
+      return message && typeof message === "object" && typeof message.event === "string" ? message : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private refuse(socket: Duplex, statusCode: number): void {
+    socket.end(`HTTP/1.1 ${statusCode} ${STATUS_CODES[statusCode]}\r\nConnection: close\r\n\r\n`);
+  }
+}
+
+export {
+  WebSocketGateway,
+  SubscribeMessage,
+  MessageBody,
+  ConnectedSocket,
+  WsException,
+  WsClient,
+  WsServer,
+};
+
+export type {
+  WebSocketGatewayOptions,
+  OnGatewayInit,
+  OnGatewayConnection,
+  OnGatewayDisconnect,
+  WsMessage,
+};
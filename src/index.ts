@@ -1,9 +1,19 @@
 import { z } from "zod";
-import express from "express";
 import {
   Injectable,
   Inject,
   ConfigService,
+  ConfigModule,
+  Logger,
+  EventEmitter,
+  OnEvent,
+  CacheModule,
+  CacheInterceptor,
+  CacheTTL,
+  CacheControl,
+  UseInterceptors,
+  ThrottlerModule,
+  ThrottlerGuard,
   Body,
   Controller,
   Delete,
@@ -12,35 +22,54 @@ import {
   Param,
   Post,
   Put,
+  HttpCode,
+  Serialize,
   UseFilters,
   UseGuards,
-  UsePipes,
   type ExceptionFilter,
   type CanActivate,
+  type ExecutionContext,
   createDecorator,
+  Reflector,
+  ForbiddenException,
   Module,
   MiniFramework,
+  ApiTags,
+  ApiBearerAuth,
+  ApiOperation,
 } from "./framework";
 
+// Environment variables, validated when the application starts
+const envSchema = z.object({
+  NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
+  PORT: z.coerce.number().int().positive().default(3000),
+});
+
 // User service with basic CRUD methods
 @Injectable()
 class UserService {
-  constructor(@Inject(ConfigService) private configService: ConfigService) {}
+  private readonly logger = new Logger(UserService.name);
+
+  constructor(
+    @Inject(ConfigService) private configService: ConfigService<typeof envSchema>,
+    private events: EventEmitter
+  ) {}
 
   getUsers() {
     return [
-      { id: 1, name: "John Doe" },
-      { id: 2, name: "Jane Doe" },
+      { id: 1, name: "John Doe", email: "john@example.com", passwordHash: "$2b$10$N9qo8uLOickgx2ZMRZoMye" },
+      { id: 2, name: "Jane Doe", email: "jane@example.com", passwordHash: "$2b$10$7EqJtq98hPqEX7fNZaFWoO" },
     ];
   }
 
   getUserById(id: string) {
-    return { id, name: "John Doe" };
+    return { id, name: "John Doe", email: "john@example.com", passwordHash: "$2b$10$N9qo8uLOickgx2ZMRZoMye" };
   }
 
   createUser(userData: { name: string; email: string; age: number }) {
-    console.log("Creating user:", userData);
+    this.logger.log("Creating user", { email: userData.email });
     // Here you would typically save the user data to a DB
+    this.events.emit("user.created", userData);
     return { message: "User created", user: userData };
   }
 
@@ -56,6 +85,17 @@ class UserService {
   }
 }
 
+// Sends a welcome email to new users, without UserService depending on it
+@Injectable()
+class WelcomeEmailService {
+  private readonly logger = new Logger(WelcomeEmailService.name);
+
+  @OnEvent("user.created", { async: true })
+  async sendWelcomeEmail(user: { name: string; email: string }) {
+    this.logger.log("Sending welcome email", { email: user.email });
+  }
+}
+
 // Zod schema for user creation
 const createUserSchema = z.object({
   name: z.string().min(2),
@@ -63,20 +103,20 @@ const createUserSchema = z.object({
   age: z.number().int().min(18),
 });
 
+// Zod schemas of the users sent to clients, the password hash is never sent
+const publicUserSchema = z.object({
+  id: z.coerce.string(),
+  name: z.string(),
+});
+const adminUserSchema = publicUserSchema.extend({ email: z.string() });
+
 // Exception filter for handling errors
 @Injectable()
 class HttpExceptionFilter implements ExceptionFilter {
-  catch(
-    exception: Error,
-    req: express.Request,
-    res: express.Response,
-    next: express.NextFunction
-  ): void {
+  catch(exception: Error, context: ExecutionContext): void {
+    const res = context.getResponse();
     if (exception instanceof HttpException) {
-      res.status(exception.status).json({
-        statusCode: exception.status,
-        message: exception.message,
-      });
+      res.status(exception.getStatus()).json(exception.getResponse());
     } else {
       // Generic fallback for other exceptions
       res.status(500).json({
@@ -90,8 +130,8 @@ class HttpExceptionFilter implements ExceptionFilter {
 // Custom guard for checking authorization headers
 @Injectable()
 class AuthGuard implements CanActivate {
-  canActivate(req: express.Request, res: express.Response): boolean {
-    const authHeader = req.headers.authorization;
+  canActivate(context: ExecutionContext): boolean {
+    const authHeader = context.getRequest().headers.authorization;
     return !!authHeader && authHeader.startsWith("Bearer ");
   }
 }
@@ -99,35 +139,62 @@ class AuthGuard implements CanActivate {
 // Custom decorator for roles
 const Roles = (...roles: string[]) => createDecorator("roles", roles);
 
+// Guard checking the roles required by @Roles on the handler or the controller
+// The caller's roles are read from the X-Roles header for the sake of the example
+@Injectable()
+class RolesGuard implements CanActivate {
+  constructor(@Inject(Reflector) private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const roles = this.reflector.getAllAndOverride<string[]>("roles", [context.getHandler(), context.getClass()]);
+    if (!roles) {
+      return true;
+    }
+    const userRoles = String(context.getRequest().headers["x-roles"] || "").split(",");
+    if (!roles.some((role) => userRoles.includes(role))) {
+      throw new ForbiddenException(`Requires one of the roles: ${roles.join(", ")}`);
+    }
+    return true;
+  }
+}
+
 // Controller for managing users
 @Controller("/users")
-@UseGuards(AuthGuard)
+@UseGuards(ThrottlerGuard, AuthGuard, RolesGuard)
 @UseFilters(HttpExceptionFilter)
+@ApiTags("users")
+@ApiBearerAuth()
 @Injectable()
 class UserController {
   constructor(@Inject(UserService) private userService: UserService) {}
 
   @Get("/")
   @Roles("admin")
+  @UseInterceptors(CacheInterceptor)
+  @CacheTTL(30_000)
+  @CacheControl({ private: true, maxAge: 30 })
+  @Serialize(adminUserSchema)
   getUsers() {
     return this.userService.getUsers();
   }
 
   @Get("/:id")
+  @Serialize({ admin: adminUserSchema, default: publicUserSchema })
   getUser(@Param("id") id: string) {
     return this.userService.getUserById(id);
   }
 
   @Post("/")
-  @UsePipes(createUserSchema.parse)
-  createUser(@Body() userData: z.infer<typeof createUserSchema>) {
+  @HttpCode(201)
+  @ApiOperation({ summary: "Create a user" })
+  createUser(@Body(createUserSchema) userData: z.infer<typeof createUserSchema>) {
     return this.userService.createUser(userData);
   }
 
   @Put("/:id")
   updateUser(
     @Param("id") id: string,
-    @Body() userData: Partial<z.infer<typeof createUserSchema>>
+    @Body(createUserSchema.partial()) userData: Partial<z.infer<typeof createUserSchema>>
   ) {
     return this.userService.updateUser(id, userData);
   }
@@ -140,17 +207,31 @@ class UserController {
 
 // User module
 @Module({
+  imports: [
+    ConfigModule.forRoot({ schema: envSchema }),
+    CacheModule.forRoot({ max: 500 }),
+    ThrottlerModule.forRoot([{ ttl: 60_000, limit: 100 }]),
+  ],
   controllers: [UserController],
-  providers: [ConfigService, UserService, AuthGuard, HttpExceptionFilter],
+  providers: [UserService, WelcomeEmailService, AuthGuard, RolesGuard, HttpExceptionFilter],
 })
 class UserModule {}
 
 // Bootstrap the application
 async function bootstrap() {
   const app = new MiniFramework();
+  // Admins get the admin view of users, see @Serialize
+  app.useSerializationGroups((context) => String(context.getRequest().headers["x-roles"] || "").split(","));
   await app.registerModule(UserModule);
-  app.listen(3000, () => {
-    console.log("Server running at http://localhost:3000");
+  app.enableOpenApi({
+    info: { title: "Users API", version: "1.0.0" },
+    path: "/openapi.json",
+  });
+  app.enableShutdownHooks();
+  app.enableRequestLogging();
+  const port = app.get<ConfigService<typeof envSchema>>(ConfigService).get("PORT");
+  await app.listen(port, () => {
+    new Logger("Bootstrap").log(`Server running at http://localhost:${port}`);
   });
 }
 